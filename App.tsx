@@ -1,42 +1,100 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 // FIX: Removed `LiveSession` as it's not an exported member of '@google/genai'.
-// FIX: Import `Blob` type for use in the local `LiveSession` interface.
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
-import { Speaker, TranscriptEntry } from './types';
+import { LiveServerMessage, LiveServerToolCall, Modality, FunctionResponse } from '@google/genai';
+import { LIVE_MODEL, Speaker, TranscriptEntry, SessionRecord, SessionStatus, ProblemBoardState, DrawingData, Annotation, QueuedProblem, SkillAttempt, MathCheck, GraphState, HintRequest, HintUsage } from './types';
 import { createBlob, decode, decodeAudioData } from './services/audioUtils';
+import { MicrophoneCapture } from './services/audioCapture';
+import { CAMERA_INSTRUCTION, CameraStreamer } from './services/cameraStream';
+import { createSessionId, defaultSessionTitle, saveSession, sessionSittings } from './services/sessionStore';
+import { buildResumeTurns, parseDataUrl, RECONNECT_PROMPT } from './services/sessionReplay';
+import { WorksheetPage, activateProblem, buildProblemPrompt, findNextProblem } from './services/problemQueue';
+import { readFileAsDataUrl, renderPdfPages } from './services/pdfPages';
+import { LiveConnection, OpenLiveSession } from './services/liveConnection';
+import { createLiveClient, ApiError } from './services/tutorApi';
+import { buildSystemInstruction } from './services/tutorPersona';
+import { VideoSource, WHITEBOARD_INSTRUCTION, videoSourceNote } from './services/whiteboard';
+import { ANNOTATION_FUNCTIONS, ANNOTATION_INSTRUCTION, isAnnotationCall, parseAnnotationCall } from './services/annotations';
+import { SKILL_FUNCTIONS, SKILL_TRACKING_INSTRUCTION, isSkillCall, parseSkillCall } from './services/skills';
+import { MATH_CHECK_INSTRUCTION, MATH_FUNCTIONS, isMathCall, runMathCall } from './services/mathTools';
+import { GRAPH_FUNCTIONS, GRAPH_INSTRUCTION, describeGraph, isGraphCall, parsePlotCall, renderGraphImage } from './services/graphing';
+import { describeConstruction } from './services/construction';
+import { HINT_LADDER_INSTRUCTION, REVEAL_LOCKED_INSTRUCTION, buildHintMessage, describeHintUsage, nextHintLevel } from './services/hintLadder';
+import { buildWeakAreasInstruction, getMastery, recordSkillAttempt } from './services/mastery';
+import { EMPTY_PROBLEM_BOARD, PROBLEM_BOARD_FUNCTIONS, PROBLEM_BOARD_INSTRUCTION, applyProblemBoardCall, isProblemBoardCall } from './services/problemBoard';
 import TranscriptView from './components/TranscriptView';
 import StatusIndicator from './components/StatusIndicator';
-import { MicrophoneIcon, StopIcon, PaperclipIcon, PencilIcon } from './components/Icons';
+import { MicrophoneIcon, StopIcon, PaperclipIcon, PencilIcon, HistoryIcon, ChatIcon, SettingsIcon, WhiteboardIcon, CameraIcon, VideoIcon, ChartIcon } from './components/Icons';
 import PinScreen from './components/PinScreen';
 import DrawingPad from './components/DrawingPad';
 import ImageCropper from './components/ImageCropper';
-
-// FIX: Defined a local `LiveSession` interface for type safety.
-interface LiveSession {
-  // FIX: Used the imported `Blob` type for `media` to match the SDK's expected input type,
-  // resolving the type mismatch where `data` is optional.
-  sendRealtimeInput(input: { media: Blob }): void;
-  close(): void;
-}
-
-const SYSTEM_INSTRUCTION = `You are a friendly and encouraging Socratic math tutor for a high school student. Your goal is to help the student understand concepts and solve problems by asking guiding questions, especially based on the image they provide. Never give the direct answer. Instead, break down the problem and ask questions that lead the student to discover the solution themselves. Keep your responses concise, conversational, and easy to understand.`;
+import CameraCapture from './components/CameraCapture';
+import CameraStreamBar from './components/CameraStreamBar';
+import WorksheetDialog from './components/WorksheetDialog';
+import ExportDialog from './components/ExportDialog';
+import SessionReviewDialog from './components/SessionReviewDialog';
+import ProblemQueueBar from './components/ProblemQueueBar';
+import HistoryPanel from './components/HistoryPanel';
+import ProgressDashboard from './components/ProgressDashboard';
+import SupervisorDashboard from './components/SupervisorDashboard';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import AddProfileDialog from './components/AddProfileDialog';
+import SettingsPanel from './components/SettingsPanel';
+import { useProfile } from './contexts/ProfileContext';
+import TextComposer from './components/TextComposer';
+import ProblemBoard from './components/ProblemBoard';
+import LiveWhiteboard from './components/LiveWhiteboard';
+import GraphPanel from './components/GraphPanel';
+import HintLadderBar from './components/HintLadderBar';
 
 const App: React.FC = () => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { profile, authToken, requestedProfileId, signIn, switchProfile, updateSettings, refreshProfile } = useProfile();
   const [isSessionActive, setIsSessionActive] = useState(false);
   const [isDrawingPadOpen, setIsDrawingPadOpen] = useState(false);
   const [isCropperOpen, setIsCropperOpen] = useState(false);
   const [imageToCrop, setImageToCrop] = useState<string | null>(null);
-  const [status, setStatus] = useState<'IDLE' | 'CONNECTING' | 'LISTENING' | 'THINKING' | 'SPEAKING'>('IDLE');
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
+  const [isCameraPaused, setIsCameraPaused] = useState(false);
+  const [status, setStatus] = useState<SessionStatus>('IDLE');
   const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isProgressOpen, setIsProgressOpen] = useState(false);
+  const [isSupervisorOpen, setIsSupervisorOpen] = useState(false);
+  const [viewedSession, setViewedSession] = useState<SessionRecord | null>(null);
+  const isTextOnly = profile?.settings.textOnly ?? false;
+  const [isAddProfileOpen, setIsAddProfileOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [problemBoard, setProblemBoard] = useState<ProblemBoardState>(EMPTY_PROBLEM_BOARD);
+  const [whiteboardAnnotations, setWhiteboardAnnotations] = useState<Annotation[]>([]);
+  const [graph, setGraph] = useState<GraphState | null>(null);
+  // Highest rung of the hint ladder used on the current step; 0 until the student asks for a hint.
+  const [hintLevel, setHintLevel] = useState(0);
+  const [problemQueue, setProblemQueue] = useState<QueuedProblem[]>([]);
+  const [worksheetPages, setWorksheetPages] = useState<WorksheetPage[]>([]);
+  const [isWorksheetOpen, setIsWorksheetOpen] = useState(false);
+  const [sessionToExport, setSessionToExport] = useState<SessionRecord | null>(null);
+  const [finishedSession, setFinishedSession] = useState<SessionRecord | null>(null);
 
-  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
+  const connectionRef = useRef<LiveConnection | null>(null);
+  const announcedVideoSourceRef = useRef<VideoSource>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const cameraStreamerRef = useRef<CameraStreamer | null>(null);
+  const cameraMediaStreamRef = useRef<MediaStream | null>(null);
+  const microphoneCaptureRef = useRef<MicrophoneCapture | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Metadata of the session currently being recorded; the transcript itself lives in state.
+  const currentSessionRef = useRef<Omit<SessionRecord, 'transcript'> | null>(null);
+  // When the current sitting began; it is added to the session's sittings when it ends.
+  const sittingStartedAtRef = useRef(0);
+  const transcriptRef = useRef<TranscriptEntry[]>([]);
+  const problemBoardRef = useRef<ProblemBoardState>(EMPTY_PROBLEM_BOARD);
+  const problemQueueRef = useRef<QueuedProblem[]>([]);
+  // Skill results reported during the current turn, attached to the transcript when the turn ends.
+  const pendingSkillAttemptsRef = useRef<SkillAttempt[]>([]);
+  const pendingMathChecksRef = useRef<MathCheck[]>([]);
+
   const userTranscriptionRef = useRef('');
   const modelTranscriptionRef = useRef('');
   
@@ -77,142 +135,413 @@ const App: React.FC = () => {
     nextStartTimeRef.current = 0;
   }, []);
 
-  const handleToggleSession = useCallback(async () => {
-    if (isSessionActive) {
-      if (sessionPromiseRef.current) {
-        sessionPromiseRef.current.then(session => session.close());
+  const persistCurrentSession = useCallback(() => {
+    const meta = currentSessionRef.current;
+    if (!meta || transcriptRef.current.length === 0) return;
+    saveSession({ ...meta, transcript: transcriptRef.current }).catch(error => {
+      console.error('Failed to save session:', error);
+    });
+  }, []);
+
+  const finishCurrentSession = useCallback(() => {
+    if (!currentSessionRef.current) return;
+    const endedAt = Date.now();
+    const sittings = [...(currentSessionRef.current.sittings ?? []), { start: sittingStartedAtRef.current, end: endedAt }];
+    currentSessionRef.current = { ...currentSessionRef.current, endedAt, sittings };
+    persistCurrentSession();
+    currentSessionRef.current = null;
+  }, [persistCurrentSession]);
+
+  useEffect(() => {
+    transcriptRef.current = transcript;
+    persistCurrentSession();
+  }, [transcript, persistCurrentSession]);
+
+  // Keeps `transcriptRef` in step with state so Live callbacks never build on a stale transcript.
+  const updateTranscript = useCallback((update: (prev: TranscriptEntry[]) => TranscriptEntry[]) => {
+    const next = update(transcriptRef.current);
+    if (next === transcriptRef.current) return;
+    transcriptRef.current = next;
+    setTranscript(next);
+  }, []);
+
+  const updateProblemBoard = useCallback((board: ProblemBoardState) => {
+    problemBoardRef.current = board;
+    setProblemBoard(board);
+  }, []);
+
+  // The queue is saved with the session so the history shows which problem each exchange was about.
+  const updateProblemQueue = useCallback((queue: QueuedProblem[]) => {
+    problemQueueRef.current = queue;
+    setProblemQueue(queue);
+    if (currentSessionRef.current) {
+      currentSessionRef.current = { ...currentSessionRef.current, problems: queue };
+      persistCurrentSession();
+    }
+  }, [persistCurrentSession]);
+
+  // Tags a new transcript entry with the worksheet problem being worked on, if any.
+  const withActiveProblem = useCallback((entry: TranscriptEntry): TranscriptEntry => {
+    const active = problemQueueRef.current.find(problem => problem.status === 'active');
+    return active ? { ...entry, problemId: active.id } : entry;
+  }, []);
+
+  // Runs the tutor's function calls and answers them on the same session.
+  const handleToolCall = useCallback((toolCall: LiveServerToolCall) => {
+    const functionResponses: FunctionResponse[] = (toolCall.functionCalls ?? []).map(call => {
+      let response: Record<string, unknown>;
+      if (isProblemBoardCall(call)) {
+        const result = applyProblemBoardCall(problemBoardRef.current, call);
+        updateProblemBoard(result.board);
+        response = result.response;
+      } else if (isAnnotationCall(call)) {
+        const result = parseAnnotationCall(call);
+        if (result.action === 'error') {
+          response = { error: result.error };
+        } else if (result.target === 'whiteboard') {
+          setWhiteboardAnnotations(result.annotations);
+          response = { result: 'ok', drawn: result.annotations.length, ...(result.errors.length > 0 && { skipped: result.errors }) };
+        } else {
+          const index = transcriptRef.current.map(entry => !!entry.image).lastIndexOf(true);
+          if (index === -1) {
+            response = { error: 'the student has not shared an image yet' };
+          } else {
+            updateTranscript(prev => prev.map((entry, i) => (i === index ? { ...entry, annotations: result.annotations } : entry)));
+            response = { result: 'ok', drawn: result.annotations.length, ...(result.errors.length > 0 && { skipped: result.errors }) };
+          }
+        }
+      } else if (isSkillCall(call)) {
+        const attempt = parseSkillCall(call);
+        const profileId = currentSessionRef.current?.profileId;
+        if ('error' in attempt) {
+          response = { error: attempt.error };
+        } else {
+          pendingSkillAttemptsRef.current = [...pendingSkillAttemptsRef.current, attempt];
+          // A recorded result closes the step, so the next one starts back at the bottom of the ladder.
+          setHintLevel(0);
+          if (profileId) {
+            recordSkillAttempt(profileId, attempt).catch(error => {
+              console.error('Failed to record skill attempt:', error);
+            });
+          }
+          response = { result: 'ok' };
+        }
+      } else if (isGraphCall(call)) {
+        if (call.name === 'close_graph') {
+          setGraph(null);
+          response = { result: 'ok' };
+        } else {
+          const result = parsePlotCall(call);
+          if ('error' in result) {
+            response = { error: result.error };
+          } else {
+            setGraph(result.state);
+            response = result.response;
+          }
+        }
+      } else if (isMathCall(call)) {
+        const result = runMathCall(call);
+        if (result.check) pendingMathChecksRef.current = [...pendingMathChecksRef.current, result.check];
+        response = result.response;
+      } else {
+        console.warn('Unhandled tool call:', call.name);
+        response = { error: `unknown function ${call.name}` };
       }
-      return;
+      return { id: call.id, name: call.name, response };
+    });
+    if (functionResponses.length > 0) {
+      connectionRef.current?.current?.sendToolResponse({ functionResponses });
     }
+  }, [updateProblemBoard, updateTranscript]);
 
-    setStatus('CONNECTING');
-    setTranscript([]);
+  // Folds the transcription accumulated for the current turn into the transcript.
+  const commitPendingTurn = useCallback(() => {
+    const fullUserInput = userTranscriptionRef.current.trim();
+    const fullModelOutput = modelTranscriptionRef.current.trim();
+    const skills = pendingSkillAttemptsRef.current;
+    const mathChecks = pendingMathChecksRef.current;
+    userTranscriptionRef.current = '';
+    modelTranscriptionRef.current = '';
+    pendingSkillAttemptsRef.current = [];
+    pendingMathChecksRef.current = [];
 
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaStreamRef.current = stream;
+    updateTranscript(prev => {
+      let next = prev;
+      // Check if the last entry was an image-only entry from the user
+      const lastEntry = next[next.length - 1];
+      if (lastEntry?.speaker === Speaker.USER && lastEntry.image && !lastEntry.text && fullUserInput) {
+        // If so, update it with the transcribed text instead of creating a new entry
+        next = [...next.slice(0, -1), { ...lastEntry, text: fullUserInput }];
+        if (fullModelOutput) next = [...next, withActiveProblem({ speaker: Speaker.TUTOR, text: fullModelOutput })];
+      } else {
+        if (fullUserInput) next = [...next, withActiveProblem({ speaker: Speaker.USER, text: fullUserInput })];
+        if (fullModelOutput) next = [...next, withActiveProblem({ speaker: Speaker.TUTOR, text: fullModelOutput })];
+      }
+      const last = next[next.length - 1];
+      if ((skills.length > 0 || mathChecks.length > 0) && last) {
+        next = [...next.slice(0, -1), {
+          ...last,
+          ...(skills.length > 0 && { skills: [...(last.skills ?? []), ...skills] }),
+          ...(mathChecks.length > 0 && { mathChecks: [...(last.mathChecks ?? []), ...mathChecks] }),
+        }];
+      }
+      return next;
+    });
+  }, [updateTranscript, withActiveProblem]);
 
-      inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+  const handleServerMessage = useCallback(async (message: LiveServerMessage) => {
+    if (message.toolCall) {
+      handleToolCall(message.toolCall);
+    }
+    if (message.serverContent) {
+      const { inputTranscription, outputTranscription, modelTurn, turnComplete, interrupted } = message.serverContent;
+      if (inputTranscription) userTranscriptionRef.current += inputTranscription.text;
+      if (outputTranscription) modelTranscriptionRef.current += outputTranscription.text;
+
+      if(interrupted) {
+        stopAllPlayback();
+      }
+
+      if(modelTurn?.parts?.[0]?.inlineData?.data) {
+        setStatus('SPEAKING');
+        const audioData = decode(modelTurn.parts[0].inlineData.data);
+        const audioBuffer = await decodeAudioData(audioData, outputAudioContextRef.current!, 24000, 1);
+
+        const currentTime = outputAudioContextRef.current!.currentTime;
+        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, currentTime);
+
+        audioPlaybackQueueRef.current.push({ buffer: audioBuffer, startTime: nextStartTimeRef.current });
+        nextStartTimeRef.current += audioBuffer.duration;
+
+        processAudioPlayback();
+      } else if (!modelTurn) {
+         setStatus('THINKING');
+      } else {
+         setStatus('LISTENING');
+      }
+
+      if (turnComplete) {
+        commitPendingTurn();
+        setStatus('LISTENING');
+      }
+    }
+  }, [processAudioPlayback, stopAllPlayback, commitPendingTurn, handleToolCall]);
+
+  const stopCameraStream = useCallback(() => {
+    cameraStreamerRef.current?.stop();
+    cameraMediaStreamRef.current?.getTracks().forEach(track => track.stop());
+    cameraStreamerRef.current = null;
+    cameraMediaStreamRef.current = null;
+    setCameraStream(null);
+    setIsCameraPaused(false);
+  }, []);
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-      sessionPromiseRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+  const teardownSession = useCallback(() => {
+    const meta = currentSessionRef.current;
+    setIsSessionActive(false);
+    stopCameraStream();
+    setStatus('IDLE');
+    mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+    microphoneCaptureRef.current?.stop();
+    outputAudioContextRef.current?.close();
+    mediaStreamRef.current = null;
+    microphoneCaptureRef.current = null;
+    outputAudioContextRef.current = null;
+    connectionRef.current = null;
+    stopAllPlayback();
+    commitPendingTurn();
+    finishCurrentSession();
+    // Only sessions the tutor actually answered in are worth a summary screen.
+    if (meta && transcriptRef.current.some(entry => entry.speaker === Speaker.TUTOR)) {
+      setFinishedSession({ ...meta, endedAt: Date.now(), transcript: transcriptRef.current });
+    }
+  }, [stopAllPlayback, commitPendingTurn, finishCurrentSession, stopCameraStream]);
+
+  // Starts a new Live connection. When `resumeFrom` is given, the stored conversation is
+  // replayed into the new connection and recording continues into the same session record.
+  // A `practiceProblem` is handed to the tutor as the student's first message.
+  const startSession = useCallback(async (resumeFrom?: SessionRecord, practiceProblem?: string) => {
+    setStatus('CONNECTING');
+    setViewedSession(null);
+    setFinishedSession(null);
+    setWhiteboardAnnotations([]);
+    setGraph(null);
+    setHintLevel(0);
+    problemQueueRef.current = resumeFrom?.problems ?? [];
+    setProblemQueue(problemQueueRef.current);
+    if (resumeFrom) {
+      updateTranscript(() => resumeFrom.transcript);
+      const lastImage = [...resumeFrom.transcript].reverse().find(entry => entry.image)?.image ?? null;
+      updateProblemBoard({ image: lastImage, steps: [] });
+      currentSessionRef.current = {
+        id: resumeFrom.id,
+        profileId: resumeFrom.profileId,
+        title: resumeFrom.title,
+        startedAt: resumeFrom.startedAt,
+        endedAt: null,
+        sittings: sessionSittings(resumeFrom),
+        problems: resumeFrom.problems,
+      };
+    } else {
+      updateTranscript(() => []);
+      updateProblemBoard(EMPTY_PROBLEM_BOARD);
+      const startedAt = Date.now();
+      currentSessionRef.current = {
+        id: createSessionId(),
+        profileId: profile!.id,
+        title: defaultSessionTitle(startedAt),
+        startedAt,
+        endedAt: null,
+        sittings: [],
+      };
+    }
+    sittingStartedAtRef.current = Date.now();
+
+    // Text-only sessions never touch the microphone, so no permission prompt is shown.
+    const useMicrophone = !isTextOnly;
+    mediaStreamRef.current = null;
+    microphoneCaptureRef.current = null;
+    userTranscriptionRef.current = '';
+    modelTranscriptionRef.current = '';
+    pendingSkillAttemptsRef.current = [];
+    pendingMathChecksRef.current = [];
+
+    const settings = profile!.settings;
+    const token = authToken!;
+    const weakAreas = await getMastery(profile!.id)
+      .then(buildWeakAreasInstruction)
+      .catch(error => {
+        console.error('Failed to load skill mastery:', error);
+        return '';
+      });
+    const openSession: OpenLiveSession = async (resumptionHandle, callbacks) => {
+      const ai = await createLiveClient(token);
+      return ai.live.connect({
+        model: LIVE_MODEL,
         config: {
           responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
-          systemInstruction: SYSTEM_INSTRUCTION,
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voiceName } } },
+          systemInstruction: [
+            buildSystemInstruction(settings),
+            PROBLEM_BOARD_INSTRUCTION,
+            ANNOTATION_INSTRUCTION,
+            CAMERA_INSTRUCTION,
+            SKILL_TRACKING_INSTRUCTION,
+            MATH_CHECK_INSTRUCTION,
+            GRAPH_INSTRUCTION,
+            HINT_LADDER_INSTRUCTION,
+            ...(settings.revealLocked ? [REVEAL_LOCKED_INSTRUCTION] : []),
+            WHITEBOARD_INSTRUCTION,
+            ...(weakAreas ? [weakAreas] : []),
+          ].join('\n\n'),
+          tools: [{ functionDeclarations: [...PROBLEM_BOARD_FUNCTIONS, ...ANNOTATION_FUNCTIONS, ...SKILL_FUNCTIONS, ...MATH_FUNCTIONS, ...GRAPH_FUNCTIONS] }],
           inputAudioTranscription: {},
           outputAudioTranscription: {},
+          sessionResumption: resumptionHandle ? { handle: resumptionHandle } : {},
         },
-        callbacks: {
-          onopen: () => {
-            setIsSessionActive(true);
-            setStatus('LISTENING');
-            const source = inputAudioContextRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-              const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromiseRef.current?.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioContextRef.current!.destination);
-            scriptProcessorRef.current = scriptProcessor;
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            if (message.serverContent) {
-              const { inputTranscription, outputTranscription, modelTurn, turnComplete, interrupted } = message.serverContent;
-              if (inputTranscription) userTranscriptionRef.current += inputTranscription.text;
-              if (outputTranscription) modelTranscriptionRef.current += outputTranscription.text;
-              
-              if(interrupted) {
-                stopAllPlayback();
-              }
-
-              if(modelTurn?.parts[0]?.inlineData?.data) {
-                setStatus('SPEAKING');
-                const audioData = decode(modelTurn.parts[0].inlineData.data);
-                const audioBuffer = await decodeAudioData(audioData, outputAudioContextRef.current!, 24000, 1);
-                
-                const currentTime = outputAudioContextRef.current!.currentTime;
-                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, currentTime);
-                
-                audioPlaybackQueueRef.current.push({ buffer: audioBuffer, startTime: nextStartTimeRef.current });
-                nextStartTimeRef.current += audioBuffer.duration;
-                
-                processAudioPlayback();
-              } else if (!modelTurn) {
-                 setStatus('THINKING');
-              } else {
-                 setStatus('LISTENING');
-              }
-
-              if (turnComplete) {
-                const fullUserInput = userTranscriptionRef.current.trim();
-                const fullModelOutput = modelTranscriptionRef.current.trim();
-                
-                const newEntries: TranscriptEntry[] = [];
-                // Check if the last entry was an image-only entry from the user
-                const lastEntry = transcript[transcript.length - 1];
-                if (lastEntry?.speaker === Speaker.USER && lastEntry.image && !lastEntry.text && fullUserInput) {
-                  // If so, update it with the transcribed text instead of creating a new entry
-                  setTranscript(prev => {
-                      const updated = [...prev];
-                      updated[updated.length - 1].text = fullUserInput;
-                      return updated;
-                  });
-                   if (fullModelOutput) newEntries.push({ speaker: Speaker.TUTOR, text: fullModelOutput });
-
-                } else {
-                    if (fullUserInput) newEntries.push({ speaker: Speaker.USER, text: fullUserInput });
-                    if (fullModelOutput) newEntries.push({ speaker: Speaker.TUTOR, text: fullModelOutput });
-                }
-
-                if (newEntries.length > 0) {
-                  setTranscript(prev => [...prev, ...newEntries]);
-                }
-                
-                userTranscriptionRef.current = '';
-                modelTranscriptionRef.current = '';
-                setStatus('LISTENING');
-              }
-            }
-          },
-          onclose: () => {
-            setIsSessionActive(false);
-            setStatus('IDLE');
-            mediaStreamRef.current?.getTracks().forEach(track => track.stop());
-            scriptProcessorRef.current?.disconnect();
-            inputAudioContextRef.current?.close();
-            outputAudioContextRef.current?.close();
-            sessionPromiseRef.current = null;
-            stopAllPlayback();
-          },
-          onerror: (e) => {
-            console.error('Session error:', e);
-            alert('A network error occurred. This could be due to a missing or invalid API key, or a problem with your internet connection. Please check your setup and try again.');
-            setIsSessionActive(false);
-            setStatus('IDLE');
-            stopAllPlayback();
-          },
-        },
+        callbacks,
       });
+    };
+
+    const connection = new LiveConnection(openSession, {
+      onOpen: ({ isReconnect, resumed }) => {
+        setIsSessionActive(true);
+        setStatus('LISTENING');
+        const session = connection.current!;
+        if (resumed) return;
+        // A fresh server context has not been told what the video input shows.
+        announcedVideoSourceRef.current = null;
+        // Without a resumption handle the server has no memory of the conversation, so replay it.
+        if (isReconnect && transcriptRef.current.length > 0) {
+          session.sendClientContent({ turns: buildResumeTurns(transcriptRef.current, RECONNECT_PROMPT), turnComplete: true });
+        } else if (!isReconnect && resumeFrom) {
+          session.sendClientContent({ turns: buildResumeTurns(resumeFrom.transcript), turnComplete: true });
+        } else if (!isReconnect && practiceProblem) {
+          const text = `I'd like to try this practice problem: ${practiceProblem}`;
+          updateTranscript(prev => [...prev, { speaker: Speaker.USER, text }]);
+          session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+          setStatus('THINKING');
+        }
+      },
+      onMessage: handleServerMessage,
+      onReconnecting: (attempt, delayMs) => {
+        console.warn(`Live session dropped; reconnecting (attempt ${attempt}) in ${delayMs}ms`);
+        setStatus('RECONNECTING');
+        stopAllPlayback();
+        commitPendingTurn();
+      },
+      onClose: (error) => {
+        teardownSession();
+        if (error) {
+          console.error('Session error:', error);
+          alert('The connection to the tutor was lost and could not be restored. Please check your internet connection and start a new session.');
+        }
+      },
+    });
+
+    try {
+      if (useMicrophone) {
+        mediaStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+        microphoneCaptureRef.current = await MicrophoneCapture.start(mediaStreamRef.current, (pcm) => {
+          // Audio captured while connecting or reconnecting is dropped rather than queued behind a dead socket.
+          connection.current?.sendRealtimeInput({ media: createBlob(pcm) });
+        });
+      }
+      outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+
+      connectionRef.current = connection;
+      await connection.start();
     } catch (error) {
       console.error('Failed to start session:', error);
-      alert('Could not start session. Please ensure you have given microphone permissions.');
+      connectionRef.current = null;
+      mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+      microphoneCaptureRef.current?.stop();
+      outputAudioContextRef.current?.close();
+      mediaStreamRef.current = null;
+      microphoneCaptureRef.current = null;
+      outputAudioContextRef.current = null;
+      if (error instanceof ApiError && error.status === 401) {
+        alert('Your sign-in has expired. Please enter your PIN again.');
+        setStatus('IDLE');
+        currentSessionRef.current = null;
+        switchProfile(profile?.id);
+        return;
+      }
+      alert(useMicrophone
+        ? 'Could not start session. Please ensure you have given microphone permissions.'
+        : 'Could not start session. Please check your connection and try again.');
       setStatus('IDLE');
+      currentSessionRef.current = null;
+    }
+  }, [profile, authToken, switchProfile, isTextOnly, updateTranscript, updateProblemBoard, handleServerMessage, stopAllPlayback, commitPendingTurn, teardownSession]);
+
+  const handleToggleSession = useCallback(() => {
+    if (isSessionActive) {
+      connectionRef.current?.close();
+      return;
+    }
+    startSession();
+  }, [isSessionActive, startSession]);
+
+  const handleStartPractice = useCallback((problem: string) => {
+    startSession(undefined, problem);
+  }, [startSession]);
+
+  const handleContinueSession = useCallback((session: SessionRecord) => {
+    if (isSessionActive || status === 'CONNECTING') {
+      alert('Please stop the current session before continuing a past one.');
+      return;
     }
-  }, [isSessionActive, processAudioPlayback, stopAllPlayback, transcript]);
+    setIsHistoryOpen(false);
+    startSession(session);
+  }, [isSessionActive, status, startSession]);
 
   const handleFileSelect = async (file: File) => {
     if (!file.type.startsWith('image/')) {
       alert('Please select an image file.');
       return;
     }
-    if (!sessionPromiseRef.current) {
+    if (!connectionRef.current) {
       alert('Please start the session before sending an image.');
       return;
     }
@@ -231,19 +560,20 @@ const App: React.FC = () => {
   };
 
   const handleCropComplete = useCallback(async (imageDataUrl: string) => {
-    if (!sessionPromiseRef.current) {
+    if (!connectionRef.current) {
       alert('Please start the session before sending a cropped image.');
       return;
     }
 
-    setTranscript(prev => [...prev, { speaker: Speaker.USER, text: '', image: imageDataUrl }]);
+    updateTranscript(prev => [...prev, withActiveProblem({ speaker: Speaker.USER, text: '', image: imageDataUrl })]);
+    updateProblemBoard({ image: imageDataUrl, steps: [] });
     
     try {
         const base64Data = imageDataUrl.split(',')[1];
         if (!base64Data) {
             throw new Error("Invalid image data URL");
         }
-        const session = await sessionPromiseRef.current!;
+        const session = await connectionRef.current!.whenConnected();
         session.sendRealtimeInput({
             media: { data: base64Data, mimeType: 'image/png' }
         });
@@ -251,18 +581,131 @@ const App: React.FC = () => {
         console.error("Failed to send cropped image:", error);
         alert("There was an error sending the cropped image.");
     }
-  }, []);
+  }, [updateTranscript, updateProblemBoard, withActiveProblem]);
+
+  // Several images or a PDF make up a worksheet that is split into a problem queue.
+  const handleWorksheetFiles = async (files: File[]) => {
+    if (!connectionRef.current) {
+      alert('Please start the session before uploading a worksheet.');
+      return;
+    }
+    try {
+      const pages: WorksheetPage[] = [];
+      for (const file of files) {
+        if (file.type === 'application/pdf') {
+          const images = await renderPdfPages(file);
+          images.forEach((image, i) => pages.push({ image, source: `page ${i + 1} of ${file.name}` }));
+        } else if (file.type.startsWith('image/')) {
+          pages.push({ image: await readFileAsDataUrl(file), source: file.name });
+        }
+      }
+      if (pages.length === 0) {
+        alert('Please select images or a PDF.');
+        return;
+      }
+      setWorksheetPages(pages);
+      setIsWorksheetOpen(true);
+    } catch (error) {
+      console.error('Failed to read worksheet:', error);
+      alert('Failed to read the worksheet files.');
+    }
+  };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      handleFileSelect(file);
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    if (files.length === 1 && files[0].type !== 'application/pdf') {
+      handleFileSelect(files[0]);
+    } else if (files.length > 0) {
+      handleWorksheetFiles(files);
     }
     event.target.value = '';
   };
 
+  // Makes a queued problem active and hands it to the tutor along with where it sits in the worksheet.
+  const goToProblem = useCallback(async (id: string, finishCurrent: boolean) => {
+    if (!connectionRef.current) {
+      alert('Please start the session before working on the worksheet.');
+      return;
+    }
+    const queue = activateProblem(problemQueueRef.current, id, finishCurrent);
+    const problem = queue.find(p => p.id === id);
+    if (!problem) return;
+    updateProblemQueue(queue);
+    updateTranscript(prev => [...prev, { speaker: Speaker.USER, text: '', image: problem.image, problemId: problem.id }]);
+    updateProblemBoard({ image: problem.image, steps: [] });
+
+    try {
+      const image = parseDataUrl(problem.image);
+      if (!image) throw new Error('Invalid image data URL');
+      const session = await connectionRef.current!.whenConnected();
+      session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: buildProblemPrompt(problem, queue) }, { inlineData: image }] }],
+        turnComplete: true,
+      });
+      setStatus('THINKING');
+    } catch (error) {
+      console.error('Failed to send problem:', error);
+      alert('There was an error sending the problem.');
+    }
+  }, [updateProblemQueue, updateTranscript, updateProblemBoard]);
+
+  const handleStartWorksheet = useCallback((problems: QueuedProblem[]) => {
+    updateProblemQueue(problems);
+    goToProblem(problems[0].id, false);
+  }, [updateProblemQueue, goToProblem]);
+
+  const handleNextProblem = useCallback(() => {
+    const next = findNextProblem(problemQueueRef.current);
+    if (next) {
+      goToProblem(next.id, true);
+    } else {
+      updateProblemQueue(problemQueueRef.current.map(problem => (problem.status === 'active' ? { ...problem, status: 'done' } : problem)));
+    }
+  }, [goToProblem, updateProblemQueue]);
+
   const handleImageUploadClick = () => fileInputRef.current?.click();
 
+  const handleToggleCameraStream = async () => {
+    if (cameraStream) {
+      stopCameraStream();
+      return;
+    }
+    let stream: MediaStream | null = null;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: { ideal: 'environment' }, width: { ideal: 1280 }, height: { ideal: 720 } },
+        audio: false,
+      });
+      cameraStreamerRef.current = await CameraStreamer.start(
+        stream,
+        { framesPerSecond: profile!.settings.cameraFrameRate, maxDimension: profile!.settings.cameraResolution },
+        (frame) => {
+          // Like microphone audio, frames captured while reconnecting are dropped.
+          connectionRef.current?.current?.sendRealtimeInput({ media: { data: frame, mimeType: 'image/jpeg' } });
+        },
+      );
+      cameraMediaStreamRef.current = stream;
+      setCameraStream(stream);
+    } catch (error) {
+      console.error('Failed to start camera stream:', error);
+      stream?.getTracks().forEach(track => track.stop());
+      alert('Could not open the camera. Please check that this site is allowed to use it.');
+    }
+  };
+
+  const handleToggleCameraPause = () => {
+    const streamer = cameraStreamerRef.current;
+    if (!streamer) return;
+    if (streamer.isPaused) streamer.resume();
+    else streamer.pause();
+    setIsCameraPaused(streamer.isPaused);
+  };
+
+  const handleCameraCapture = (imageDataUrl: string) => {
+    setImageToCrop(imageDataUrl);
+    setIsCropperOpen(true);
+  };
+
   const handlePaste = useCallback((event: ClipboardEvent) => {
     if (!isSessionActive) return;
     const items = event.clipboardData?.items;
@@ -280,29 +723,113 @@ const App: React.FC = () => {
     }
   }, [isSessionActive, handleFileSelect]);
 
-  const handleSendDrawing = useCallback(async (imageDataUrl: string) => {
-    if (!sessionPromiseRef.current) {
+  const handleSendText = useCallback(async (text: string) => {
+    if (!connectionRef.current) {
+      alert('Please start the session before sending a message.');
+      return;
+    }
+
+    updateTranscript(prev => [...prev, withActiveProblem({ speaker: Speaker.USER, text })]);
+
+    try {
+      const session = await connectionRef.current!.whenConnected();
+      session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+      setStatus('THINKING');
+    } catch (error) {
+      console.error("Failed to send message:", error);
+      alert("There was an error sending your message.");
+    }
+  }, [updateTranscript, withActiveProblem]);
+
+  // Each worksheet problem starts back at the bottom of the hint ladder.
+  const activeProblemId = problemQueue.find(problem => problem.status === 'active')?.id;
+  useEffect(() => {
+    setHintLevel(0);
+  }, [activeProblemId]);
+
+  // Hint ladder buttons send a control message naming the exact level of help to give.
+  const handleHintRequest = useCallback(async (request: HintRequest) => {
+    if (!connectionRef.current || !profile) return;
+    if (request === 'reveal' && profile.settings.revealLocked) return;
+    const usage: HintUsage = { request, level: nextHintLevel(hintLevel, request) };
+    setHintLevel(usage.level);
+    updateTranscript(prev => [...prev, withActiveProblem({ speaker: Speaker.USER, text: describeHintUsage(usage), hint: usage })]);
+
+    try {
+      const session = await connectionRef.current.whenConnected();
+      session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: buildHintMessage(usage) }] }], turnComplete: true });
+      setStatus('THINKING');
+    } catch (error) {
+      console.error('Failed to send hint request:', error);
+      alert('There was an error asking for a hint.');
+    }
+  }, [profile, hintLevel, updateTranscript, withActiveProblem]);
+
+  const handleSendDrawing = useCallback(async (imageDataUrl: string, drawing: DrawingData, recognizedMath?: string) => {
+    if (!connectionRef.current) {
       alert('Please start the session before sending a drawing.');
       return;
     }
 
-    setTranscript(prev => [...prev, { speaker: Speaker.USER, text: '', image: imageDataUrl }]);
+    // Constructions carry their exact measurements, and confirmed handwriting its LaTeX, as text
+    // so the tutor doesn't have to read them off the image.
+    const description = [
+      drawing.construction ? describeConstruction(drawing.construction) : '',
+      recognizedMath ? `My handwritten math reads: $$${recognizedMath}$$` : '',
+    ].filter(Boolean).join('\n');
+    updateTranscript(prev => [...prev, withActiveProblem({ speaker: Speaker.USER, text: description, image: imageDataUrl, drawing, recognizedMath })]);
+    updateProblemBoard({ image: imageDataUrl, steps: [] });
     
     try {
         const base64Data = imageDataUrl.split(',')[1];
         if (!base64Data) {
             throw new Error("Invalid image data URL");
         }
-        const session = await sessionPromiseRef.current!;
-        session.sendRealtimeInput({
-            media: { data: base64Data, mimeType: 'image/png' }
-        });
+        const session = await connectionRef.current!.whenConnected();
+        if (description) {
+            session.sendClientContent({
+                turns: [{ role: 'user', parts: [{ text: description }, { inlineData: { data: base64Data, mimeType: 'image/png' } }] }],
+                turnComplete: true,
+            });
+            setStatus('THINKING');
+        } else {
+            session.sendRealtimeInput({
+                media: { data: base64Data, mimeType: 'image/png' }
+            });
+        }
     } catch (error) {
         console.error("Failed to send drawing:", error);
         alert("There was an error sending the drawing.");
     }
-  }, []);
+  }, [updateTranscript, updateProblemBoard, withActiveProblem]);
   
+  // Sends the graph as the student currently has it, with the exact slider values spelled out.
+  const handleSendGraph = useCallback(async () => {
+    if (!connectionRef.current || !graph) return;
+    const imageDataUrl = renderGraphImage(graph);
+    const text = describeGraph(graph);
+    updateTranscript(prev => [...prev, withActiveProblem({ speaker: Speaker.USER, text, image: imageDataUrl })]);
+
+    try {
+      const session = await connectionRef.current.whenConnected();
+      session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text }, { inlineData: { data: imageDataUrl.split(',')[1], mimeType: 'image/png' } }] }],
+        turnComplete: true,
+      });
+      setStatus('THINKING');
+    } catch (error) {
+      console.error('Failed to send graph:', error);
+      alert('There was an error sending the graph.');
+    }
+  }, [graph, updateTranscript, withActiveProblem]);
+
+  const handleWhiteboardFrame = useCallback((base64Jpeg: string) => {
+    // Frames are snapshots of a live view, so one missed while reconnecting is simply skipped.
+    connectionRef.current?.current?.sendRealtimeInput({
+      media: { data: base64Jpeg, mimeType: 'image/jpeg' },
+    });
+  }, []);
+
   useEffect(() => {
     document.addEventListener('paste', handlePaste);
     return () => {
@@ -312,34 +839,181 @@ const App: React.FC = () => {
 
   useEffect(() => {
     return () => {
-      if (sessionPromiseRef.current) {
-        sessionPromiseRef.current.then(session => session.close());
-      }
+      connectionRef.current?.close();
     };
   }, []);
 
-  if (!isAuthenticated) {
-    return <PinScreen onSuccess={() => setIsAuthenticated(true)} />;
+  // Whiteboard and camera frames share one video input, so the camera takes it over while on
+  // and the tutor is told whenever the source changes.
+  const isConnected = isSessionActive && (status === 'LISTENING' || status === 'THINKING' || status === 'SPEAKING');
+  const videoSource: VideoSource = cameraStream ? 'camera' : profile?.settings.dockedWhiteboard ? 'whiteboard' : null;
+  useEffect(() => {
+    const session = connectionRef.current?.current;
+    if (!isConnected || !session || announcedVideoSourceRef.current === videoSource) return;
+    announcedVideoSourceRef.current = videoSource;
+    session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: videoSourceNote(videoSource) }] }], turnComplete: false });
+  }, [isConnected, videoSource]);
+
+  const cameraFrameRate = profile?.settings.cameraFrameRate;
+  const cameraResolution = profile?.settings.cameraResolution;
+  useEffect(() => {
+    if (cameraFrameRate && cameraResolution) {
+      cameraStreamerRef.current?.setOptions({ framesPerSecond: cameraFrameRate, maxDimension: cameraResolution });
+    }
+  }, [cameraFrameRate, cameraResolution]);
+
+  const handleOpenPastSession = useCallback((session: SessionRecord) => {
+    setViewedSession(session.id === currentSessionRef.current?.id ? null : session);
+    setIsHistoryOpen(false);
+  }, []);
+
+  const handleSessionRenamed = useCallback((id: string, title: string) => {
+    if (currentSessionRef.current?.id === id) {
+      currentSessionRef.current = { ...currentSessionRef.current, title };
+    }
+    setViewedSession(prev => (prev?.id === id ? { ...prev, title } : prev));
+  }, []);
+
+  const handleSessionDeleted = useCallback((id: string) => {
+    setViewedSession(prev => (prev?.id === id ? null : prev));
+  }, []);
+
+  const handleSwitchProfile = useCallback((profileId?: string) => {
+    connectionRef.current?.close();
+    setIsHistoryOpen(false);
+    setIsProgressOpen(false);
+    setIsSupervisorOpen(false);
+    setViewedSession(null);
+    setFinishedSession(null);
+    updateTranscript(() => []);
+    switchProfile(profileId);
+  }, [switchProfile, updateTranscript]);
+
+  // The tutor's marks on the most recent image show up in the pad when that image was drawn there.
+  const lastImageEntry = [...transcript].reverse().find(entry => entry.image);
+  const lastDrawingEntry = lastImageEntry?.drawing ? lastImageEntry : undefined;
+
+  if (!profile) {
+    return <PinScreen onSuccess={signIn} initialProfileId={requestedProfileId} />;
   }
 
   return (
     <div className="h-screen w-screen bg-gray-900 flex flex-col font-sans text-white">
-      <header className="p-4 border-b border-gray-700 text-center shadow-lg">
+      <header className="relative p-4 border-b border-gray-700 text-center shadow-lg">
+        <div className="absolute left-4 top-1/2 -translate-y-1/2">
+          <ProfileSwitcher profile={profile} onSwitch={handleSwitchProfile} onAddProfile={() => setIsAddProfileOpen(true)} onOpenSupervisor={() => setIsSupervisorOpen(true)} />
+        </div>
         <h1 className="text-2xl font-bold tracking-wider">Lava Math Tutor</h1>
+        <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-2">
+          <button
+            onClick={() => updateSettings({ dockedWhiteboard: !profile.settings.dockedWhiteboard })}
+            className={`w-10 h-10 rounded-full flex items-center justify-center transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400 ${profile.settings.dockedWhiteboard ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+            aria-label={profile.settings.dockedWhiteboard ? 'Hide shared whiteboard' : 'Show shared whiteboard'}
+            aria-pressed={profile.settings.dockedWhiteboard}
+          >
+            <WhiteboardIcon className="w-5 h-5 text-white" />
+          </button>
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="w-10 h-10 rounded-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+            aria-label="Tutor settings"
+          >
+            <SettingsIcon className="w-5 h-5 text-white" />
+          </button>
+          <button
+            onClick={() => setIsProgressOpen(true)}
+            className="w-10 h-10 rounded-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+            aria-label="Skill progress"
+          >
+            <ChartIcon className="w-5 h-5 text-white" />
+          </button>
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="w-10 h-10 rounded-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+            aria-label="Browse past sessions"
+          >
+            <HistoryIcon className="w-5 h-5 text-white" />
+          </button>
+        </div>
       </header>
 
-      <main className="flex-grow flex flex-col min-h-0">
-        <TranscriptView transcript={transcript} />
+      <main className="flex-grow flex flex-col-reverse md:flex-row min-h-0">
+        <div className="flex-grow flex flex-col min-h-0">
+          {viewedSession && (
+            <div className="px-6 py-2 bg-gray-800 border-b border-gray-700 flex items-center justify-between text-sm">
+              <span className="text-gray-300 truncate">
+                Viewing <span className="font-semibold text-white">{viewedSession.title}</span> (read-only)
+              </span>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleContinueSession(viewedSession)}
+                  disabled={isSessionActive || status === 'CONNECTING'}
+                  className="px-3 py-1 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Continue this session
+                </button>
+                <button onClick={() => setViewedSession(null)} className="px-3 py-1 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">
+                  Back to current
+                </button>
+              </div>
+            </div>
+          )}
+          {!viewedSession && problemQueue.length > 0 && (
+            <ProblemQueueBar
+              problems={problemQueue}
+              hasNext={!!findNextProblem(problemQueue)}
+              disabled={!isSessionActive || status === 'CONNECTING'}
+              onSelect={(id) => goToProblem(id, false)}
+              onNext={handleNextProblem}
+            />
+          )}
+          <TranscriptView
+            transcript={viewedSession ? viewedSession.transcript : transcript}
+            problems={viewedSession ? viewedSession.problems : problemQueue}
+          />
+        </div>
+        {profile.settings.dockedWhiteboard && (
+          <LiveWhiteboard
+            isStreaming={isConnected && videoSource === 'whiteboard'}
+            onFrame={handleWhiteboardFrame}
+            annotations={whiteboardAnnotations}
+          />
+        )}
+        {!viewedSession && graph && (
+          <GraphPanel
+            graph={graph}
+            onChange={setGraph}
+            onShare={handleSendGraph}
+            canShare={isSessionActive && status !== 'CONNECTING'}
+            onClose={() => setGraph(null)}
+          />
+        )}
+        {!viewedSession && (isSessionActive || problemBoard.image || problemBoard.steps.length > 0) && (
+          <ProblemBoard board={problemBoard} />
+        )}
       </main>
 
       <footer className="p-4 border-t border-gray-700 flex flex-col items-center justify-center space-y-3">
-        <StatusIndicator status={status} />
+        <StatusIndicator status={status} isTextOnly={isTextOnly} />
+        <div className="flex items-center bg-gray-800 rounded-full p-1 text-xs" role="group" aria-label="Session mode">
+          {[false, true].map(textOnly => (
+            <button
+              key={String(textOnly)}
+              onClick={() => updateSettings({ textOnly })}
+              disabled={isSessionActive || status === 'CONNECTING'}
+              className={`px-3 py-1 rounded-full transition-colors disabled:cursor-not-allowed ${isTextOnly === textOnly ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+              aria-pressed={isTextOnly === textOnly}
+            >
+              {textOnly ? 'Text only' : 'Voice'}
+            </button>
+          ))}
+        </div>
         <div className="flex items-center justify-center space-x-4">
           <button
             onClick={handleImageUploadClick}
             disabled={!isSessionActive || status === 'CONNECTING'}
             className="w-16 h-16 rounded-full flex items-center justify-center transition-all duration-300 ease-in-out focus:outline-none focus:ring-4 focus:ring-opacity-50 bg-gray-600 hover:bg-gray-700 focus:ring-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
-            aria-label="Upload question image"
+            aria-label="Upload a question image, several images or a PDF worksheet"
           >
             <PaperclipIcon className="w-7 h-7 text-white" />
           </button>
@@ -348,8 +1022,17 @@ const App: React.FC = () => {
             ref={fileInputRef}
             onChange={handleFileChange}
             className="hidden"
-            accept="image/*"
+            accept="image/*,application/pdf"
+            multiple
           />
+          <button
+            onClick={() => setIsCameraOpen(true)}
+            disabled={!isSessionActive || status === 'CONNECTING'}
+            className="w-16 h-16 rounded-full flex items-center justify-center transition-all duration-300 ease-in-out focus:outline-none focus:ring-4 focus:ring-opacity-50 bg-gray-600 hover:bg-gray-700 focus:ring-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Take a photo of your work"
+          >
+            <CameraIcon className="w-7 h-7 text-white" />
+          </button>
           <button
             onClick={handleToggleSession}
             disabled={status === 'CONNECTING'}
@@ -359,7 +1042,9 @@ const App: React.FC = () => {
             `}
             aria-label={isSessionActive ? "Stop session" : "Start session"}
           >
-            {isSessionActive ? <StopIcon className="w-8 h-8 text-white" /> : <MicrophoneIcon className="w-8 h-8 text-white" />}
+            {isSessionActive
+              ? <StopIcon className="w-8 h-8 text-white" />
+              : isTextOnly ? <ChatIcon className="w-8 h-8 text-white" /> : <MicrophoneIcon className="w-8 h-8 text-white" />}
           </button>
           <button
             onClick={() => setIsDrawingPadOpen(true)}
@@ -369,13 +1054,56 @@ const App: React.FC = () => {
           >
             <PencilIcon className="w-7 h-7 text-white" />
           </button>
+          <button
+            onClick={handleToggleCameraStream}
+            disabled={!isSessionActive || status === 'CONNECTING'}
+            className={`w-16 h-16 rounded-full flex items-center justify-center transition-all duration-300 ease-in-out focus:outline-none focus:ring-4 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed ${cameraStream ? 'bg-red-600 hover:bg-red-700 focus:ring-red-400' : 'bg-gray-600 hover:bg-gray-700 focus:ring-gray-400'}`}
+            aria-label={cameraStream ? 'Stop streaming the camera' : 'Stream the camera to the tutor'}
+            aria-pressed={!!cameraStream}
+          >
+            <VideoIcon className="w-7 h-7 text-white" />
+          </button>
         </div>
+        {isSessionActive && (
+          <HintLadderBar
+            level={hintLevel}
+            revealLocked={profile.settings.revealLocked}
+            disabled={status === 'CONNECTING' || status === 'RECONNECTING'}
+            onRequest={handleHintRequest}
+          />
+        )}
+        {cameraStream && (
+          <CameraStreamBar
+            stream={cameraStream}
+            isPaused={isCameraPaused}
+            frameRate={profile.settings.cameraFrameRate}
+            resolution={profile.settings.cameraResolution}
+            onTogglePause={handleToggleCameraPause}
+            onFrameRateChange={(cameraFrameRate) => updateSettings({ cameraFrameRate })}
+            onResolutionChange={(cameraResolution) => updateSettings({ cameraResolution })}
+            onStop={stopCameraStream}
+          />
+        )}
+        <TextComposer disabled={!isSessionActive || status === 'CONNECTING'} onSend={handleSendText} />
         <p className="text-xs text-gray-500 pt-1">You can also paste an image from your clipboard during an active session.</p>
       </footer>
       <DrawingPad 
         isOpen={isDrawingPadOpen}
         onClose={() => setIsDrawingPadOpen(false)}
         onSend={handleSendDrawing}
+        authToken={authToken}
+        annotatedDrawing={lastDrawingEntry?.annotations ? { drawing: lastDrawingEntry.drawing!, annotations: lastDrawingEntry.annotations } : undefined}
+      />
+      <WorksheetDialog
+        isOpen={isWorksheetOpen}
+        pages={worksheetPages}
+        onClose={() => setIsWorksheetOpen(false)}
+        onStart={handleStartWorksheet}
+      />
+      <CameraCapture
+        isOpen={isCameraOpen}
+        onClose={() => setIsCameraOpen(false)}
+        onCapture={handleCameraCapture}
       />
       <ImageCropper 
         isOpen={isCropperOpen}
@@ -386,6 +1114,52 @@ const App: React.FC = () => {
         }}
         onCrop={handleCropComplete}
       />
+      <HistoryPanel
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpenSession={handleOpenPastSession}
+        onContinueSession={handleContinueSession}
+        canContinue={!isSessionActive && status !== 'CONNECTING'}
+        onSessionRenamed={handleSessionRenamed}
+        onSessionDeleted={handleSessionDeleted}
+        onExportSession={setSessionToExport}
+        profileId={profile.id}
+        activeSessionId={currentSessionRef.current?.id}
+      />
+      <SupervisorDashboard
+        isOpen={isSupervisorOpen}
+        canSetPin={profile.role !== 'student'}
+        onClose={() => setIsSupervisorOpen(false)}
+        onProfileUpdated={refreshProfile}
+      />
+      <ProgressDashboard
+        isOpen={isProgressOpen}
+        profileId={profile.id}
+        onClose={() => setIsProgressOpen(false)}
+      />
+      <SessionReviewDialog
+        session={finishedSession}
+        authToken={authToken}
+        gradeBand={profile.settings.gradeBand}
+        onStartPractice={handleStartPractice}
+        onClose={() => setFinishedSession(null)}
+      />
+      <ExportDialog
+        session={sessionToExport}
+        authToken={authToken}
+        onClose={() => setSessionToExport(null)}
+      />
+      <SettingsPanel
+        isOpen={isSettingsOpen}
+        settings={profile.settings}
+        onClose={() => setIsSettingsOpen(false)}
+        onSave={updateSettings}
+      />
+      <AddProfileDialog
+        isOpen={isAddProfileOpen}
+        authToken={authToken}
+        onClose={() => setIsAddProfileOpen(false)}
+      />
     </div>
   );
 };
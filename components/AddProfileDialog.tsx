@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { ProfileRole } from '../types';
+import { createProfile } from '../services/profileStore';
+import ProfileForm from './ProfileForm';
+
+interface AddProfileDialogProps {
+  isOpen: boolean;
+  authToken: string | null;
+  onClose: () => void;
+}
+
+const AddProfileDialog: React.FC<AddProfileDialogProps> = ({ isOpen, authToken, onClose }) => {
+  const [createdName, setCreatedName] = useState<string | null>(null);
+
+  const handleCreate = async (name: string, role: ProfileRole, pin: string) => {
+    const { profile } = await createProfile(name, role, pin, authToken);
+    setCreatedName(profile.name);
+  };
+
+  const handleClose = () => {
+    setCreatedName(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="add-profile-title">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-sm flex flex-col">
+        <header className="p-4 border-b border-gray-700">
+            <h2 id="add-profile-title" className="text-lg font-semibold text-center">Add a Profile</h2>
+        </header>
+        <div className="p-6 bg-gray-900">
+          {createdName ? (
+            <p className="text-center text-gray-300">{createdName}'s profile is ready. They can choose it from the profile menu.</p>
+          ) : (
+            <ProfileForm submitLabel="Add Profile" onCreate={handleCreate} />
+          )}
+        </div>
+        <footer className="p-4 flex justify-end gap-4 border-t border-gray-700">
+          <button onClick={handleClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">
+            {createdName ? 'Done' : 'Cancel'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default AddProfileDialog;
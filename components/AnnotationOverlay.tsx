@@ -0,0 +1,101 @@
+import React, { useRef, useEffect, useState, useId } from 'react';
+import { Annotation } from '../types';
+
+interface AnnotationOverlayProps {
+  annotations: Annotation[];
+  // Fixed pixel frame the annotations refer to, anchored top-left. Defaults to the overlay's own size.
+  frame?: { width: number; height: number };
+}
+
+const ANNOTATION_COLOR = '#FACC15'; // yellow-400, distinct from the pen colors
+const FONT_SIZE = 14;
+
+const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({ annotations, frame }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [measured, setMeasured] = useState({ width: 0, height: 0 });
+  const markerId = useId();
+  const hasAnnotations = annotations.length > 0;
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || frame) return;
+    const observer = new ResizeObserver(() => {
+      const rect = svg.getBoundingClientRect();
+      setMeasured({ width: rect.width, height: rect.height });
+    });
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, [frame, hasAnnotations]);
+
+  const { width, height } = frame ?? measured;
+  if (!hasAnnotations) return null;
+
+  // Normalized 0-1000 coordinates to pixels.
+  const px = (x: number) => (x / 1000) * width;
+  const py = (y: number) => (y / 1000) * height;
+
+  const label = (text: string | undefined, x: number, y: number, key: string) => text && (
+    <text key={key} x={x} y={y} fill={ANNOTATION_COLOR} fontSize={FONT_SIZE} fontWeight="bold" stroke="#000" strokeWidth={3} paintOrder="stroke">
+      {text}
+    </text>
+  );
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute top-0 left-0 pointer-events-none overflow-visible"
+      style={frame ? { width: frame.width, height: frame.height } : { width: '100%', height: '100%' }}
+      viewBox={`0 0 ${Math.max(width, 1)} ${Math.max(height, 1)}`}
+      aria-hidden="true"
+    >
+      <defs>
+        <marker id={markerId} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M0 0 10 5 0 10z" fill={ANNOTATION_COLOR} />
+        </marker>
+      </defs>
+      <g fill="none" stroke={ANNOTATION_COLOR} strokeWidth={3} strokeLinecap="round">
+        {annotations.map((annotation, i) => {
+          switch (annotation.kind) {
+            case 'circle': {
+              const [ymin, xmin, ymax, xmax] = annotation.box;
+              const rx = (px(xmax) - px(xmin)) / 2 + 6;
+              const ry = (py(ymax) - py(ymin)) / 2 + 6;
+              return (
+                <g key={i}>
+                  <ellipse cx={(px(xmin) + px(xmax)) / 2} cy={(py(ymin) + py(ymax)) / 2} rx={rx} ry={ry} />
+                  {label(annotation.text, px(xmin), py(ymin) - 10, 'text')}
+                </g>
+              );
+            }
+            case 'underline': {
+              const [, xmin, ymax, xmax] = annotation.box;
+              const y = py(ymax) + 4;
+              return (
+                <g key={i}>
+                  <line x1={px(xmin)} y1={y} x2={px(xmax)} y2={y} />
+                  {label(annotation.text, px(xmin), y + FONT_SIZE + 4, 'text')}
+                </g>
+              );
+            }
+            case 'arrow': {
+              const [fromY, fromX] = annotation.from;
+              const [toY, toX] = annotation.to;
+              return (
+                <g key={i}>
+                  <line x1={px(fromX)} y1={py(fromY)} x2={px(toX)} y2={py(toY)} markerEnd={`url(#${markerId})`} />
+                  {label(annotation.text, px(fromX), py(fromY) + (fromY > toY ? FONT_SIZE + 4 : -6), 'text')}
+                </g>
+              );
+            }
+            case 'label': {
+              const [y, x] = annotation.at;
+              return label(annotation.text, px(x), py(y), String(i));
+            }
+          }
+        })}
+      </g>
+    </svg>
+  );
+};
+
+export default AnnotationOverlay;
@@ -0,0 +1,104 @@
+import React, { useRef, useEffect, useState } from 'react';
+
+interface CameraCaptureProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCapture: (imageDataUrl: string) => void;
+}
+
+type FacingMode = 'environment' | 'user';
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ isOpen, onClose, onCapture }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsReady(false);
+    setError(null);
+
+    navigator.mediaDevices.getUserMedia({
+      // Ask for a high resolution so handwriting stays legible after cropping.
+      video: { facingMode: { ideal: facingMode }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false,
+    }).then(stream => {
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+      if (videoRef.current) videoRef.current.srcObject = stream;
+    }).catch(err => {
+      console.error('Failed to open camera:', err);
+      if (!cancelled) setError('Could not open the camera. Please check that this site is allowed to use it.');
+    });
+
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    };
+  }, [isOpen, facingMode]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    // The cropper produces the final PNG; a high-quality JPEG keeps this intermediate small.
+    onCapture(canvas.toDataURL('image/jpeg', 0.95));
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="camera-title">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full h-full max-w-4xl max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b border-gray-700">
+          <h2 id="camera-title" className="text-lg font-semibold text-center">Take a Photo of Your Work</h2>
+        </header>
+
+        <div className="flex-grow p-4 flex items-center justify-center bg-gray-900 overflow-hidden">
+          {error ? (
+            <p className="text-red-400 text-center">{error}</p>
+          ) : (
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              onLoadedMetadata={() => setIsReady(true)}
+              className="max-w-full max-h-full rounded-md"
+            />
+          )}
+        </div>
+
+        <footer className="p-4 flex justify-end gap-4 border-t border-gray-700">
+          <button onClick={onClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Cancel</button>
+          <button
+            onClick={() => setFacingMode(prev => (prev === 'environment' ? 'user' : 'environment'))}
+            className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors"
+          >
+            Switch camera
+          </button>
+          <button
+            onClick={handleCapture}
+            disabled={!isReady}
+            className="px-6 py-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Capture
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,55 @@
+import React, { useRef, useEffect } from 'react';
+import { CAMERA_FRAME_RATES, CAMERA_RESOLUTIONS } from '../services/cameraStream';
+
+interface CameraStreamBarProps {
+  stream: MediaStream;
+  isPaused: boolean;
+  frameRate: number;
+  resolution: number;
+  onTogglePause: () => void;
+  onFrameRateChange: (frameRate: number) => void;
+  onResolutionChange: (resolution: number) => void;
+  onStop: () => void;
+}
+
+const selectClassName = "px-2 py-1 bg-gray-900 border border-gray-600 rounded-md text-white text-xs focus:outline-none focus:border-blue-500";
+
+const CameraStreamBar: React.FC<CameraStreamBarProps> = ({
+  stream, isPaused, frameRate, resolution, onTogglePause, onFrameRateChange, onResolutionChange, onStop,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  return (
+    <div className="flex items-center gap-3 bg-gray-800 rounded-lg p-2 text-xs" aria-label="Camera stream">
+      <div className="relative w-24 h-16 flex-shrink-0 rounded-md overflow-hidden bg-black">
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+        <span className={`absolute top-1 left-1 flex items-center gap-1 px-1 rounded bg-black bg-opacity-60 ${isPaused ? 'text-gray-300' : 'text-red-400'}`}>
+          <span className={`w-1.5 h-1.5 rounded-full ${isPaused ? 'bg-gray-400' : 'bg-red-500 animate-pulse'}`}></span>
+          {isPaused ? 'Paused' : 'Live'}
+        </span>
+      </div>
+      <div className="flex flex-col gap-1">
+        <select value={frameRate} onChange={(e) => onFrameRateChange(Number(e.target.value))} className={selectClassName} aria-label="Frame rate">
+          {CAMERA_FRAME_RATES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        <select value={resolution} onChange={(e) => onResolutionChange(Number(e.target.value))} className={selectClassName} aria-label="Resolution">
+          {CAMERA_RESOLUTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+      </div>
+      <div className="flex flex-col gap-1">
+        <button onClick={onTogglePause} className="px-3 py-1 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">
+          {isPaused ? 'Resume' : 'Pause'}
+        </button>
+        <button onClick={onStop} className="px-3 py-1 bg-red-600 rounded-md hover:bg-red-700 transition-colors">
+          Stop
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraStreamBar;
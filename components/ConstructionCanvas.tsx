@@ -0,0 +1,156 @@
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Construction } from '../types';
+import {
+  ConstructionTool, MAX_LABEL_LENGTH, PendingShape, Position, addShape, distance, drawConstruction, ensurePoint, eraseAt,
+  nearestPoint, renamePoint, snapDirection, snapPosition,
+} from '../services/construction';
+
+interface ConstructionCanvasProps {
+  construction: Construction;
+  tool: ConstructionTool;
+  // When inactive the layer only displays the figure and lets pointer input through to the strokes below.
+  active: boolean;
+  onCommit: (construction: Construction) => void;
+  className?: string;
+}
+
+// Drags shorter than this (CSS px) are treated as a slip rather than a ruler line or compass circle.
+const MIN_DRAG = 6;
+
+const ConstructionCanvas: React.FC<ConstructionCanvasProps> = ({ construction, tool, active, onCommit, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const activePointerIdRef = useRef<number | null>(null);
+  const [pending, setPending] = useState<PendingShape | null>(null);
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const rect = canvas.getBoundingClientRect();
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== rect.width * dpr || canvas.height !== rect.height * dpr) {
+      canvas.width = rect.width * dpr;
+      canvas.height = rect.height * dpr;
+    }
+    context.setTransform(dpr, 0, 0, dpr, 0, 0);
+    context.clearRect(0, 0, rect.width, rect.height);
+    drawConstruction(context, construction, rect.width, rect.height, pending);
+  }, [construction, pending]);
+
+  useEffect(() => {
+    redraw();
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(redraw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [redraw]);
+
+  // A half-picked angle belongs to the protractor; switching tools abandons it.
+  useEffect(() => {
+    setPending(null);
+  }, [tool, active]);
+
+  const toPosition = (e: React.PointerEvent<HTMLCanvasElement>): Position => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  // The ruler's far end sticks to existing points first, then to 15° directions from its start.
+  const rulerEnd = (from: Position, at: Position): Position => {
+    const snapped = snapPosition(construction, at);
+    return snapped.point ? snapped.position : snapDirection(from, snapped.position);
+  };
+
+  const handleTap = (at: Position) => {
+    if (tool === 'point') {
+      const { construction: next } = ensurePoint(construction, snapPosition(construction, at).position);
+      onCommit(next);
+    } else if (tool === 'erase') {
+      onCommit(eraseAt(construction, at));
+    } else if (tool === 'label') {
+      const point = nearestPoint(construction, at);
+      if (!point) return;
+      const label = window.prompt('Label for this point:', point.label)?.trim().slice(0, MAX_LABEL_LENGTH);
+      if (label && label !== point.label) onCommit(renamePoint(construction, point.id, label));
+    } else if (tool === 'protractor') {
+      const picked = [...(pending?.kind === 'angle' ? pending.picked : []), snapPosition(construction, at).position];
+      if (picked.length < 3) {
+        setPending({ kind: 'angle', picked, cursor: null });
+        return;
+      }
+      // Picked as arm, vertex, arm — the same order the angle is named in (∠ABC).
+      let next = construction;
+      const ids = picked.map(position => {
+        const placed = ensurePoint(next, position);
+        next = placed.construction;
+        return placed.point.id;
+      });
+      setPending(null);
+      if (new Set(ids).size === 3) onCommit(addShape(next, { kind: 'angle', from: ids[0], vertex: ids[1], to: ids[2] }));
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.isPrimary || activePointerIdRef.current !== null) return;
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    const at = toPosition(e);
+    if (tool === 'ruler' || tool === 'compass') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      activePointerIdRef.current = e.pointerId;
+      const start = snapPosition(construction, at).position;
+      setPending(tool === 'ruler' ? { kind: 'segment', from: start, to: start } : { kind: 'circle', center: start, through: start });
+    } else {
+      handleTap(at);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const at = toPosition(e);
+    if (pending?.kind === 'angle') {
+      setPending({ ...pending, cursor: snapPosition(construction, at).position });
+      return;
+    }
+    if (e.pointerId !== activePointerIdRef.current || !pending) return;
+    if (pending.kind === 'segment') {
+      setPending({ ...pending, to: rulerEnd(pending.from, at) });
+    } else if (pending.kind === 'circle') {
+      setPending({ ...pending, through: snapPosition(construction, at).position });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerIdRef.current) return;
+    activePointerIdRef.current = null;
+    setPending(null);
+    if (pending?.kind === 'segment' && distance(pending.from, pending.to) >= MIN_DRAG) {
+      const start = ensurePoint(construction, pending.from);
+      const end = ensurePoint(start.construction, pending.to);
+      if (end.point.id !== start.point.id) {
+        onCommit(addShape(end.construction, { kind: 'segment', from: start.point.id, to: end.point.id }));
+      }
+    } else if (pending?.kind === 'circle' && distance(pending.center, pending.through) >= MIN_DRAG) {
+      const center = ensurePoint(construction, pending.center);
+      onCommit(addShape(center.construction, { kind: 'circle', center: center.point.id, radius: distance(center.point, pending.through) }));
+    }
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerIdRef.current) return;
+    activePointerIdRef.current = null;
+    setPending(null);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      className={`touch-none ${active ? (tool === 'erase' ? 'cursor-cell' : 'cursor-crosshair') : 'pointer-events-none'} ${className ?? ''}`}
+    />
+  );
+};
+
+export default ConstructionCanvas;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { ConstructionTool } from '../services/construction';
+
+interface ConstructionToolbarProps {
+  tool: ConstructionTool;
+  canUndo: boolean;
+  canRedo: boolean;
+  onToolChange: (tool: ConstructionTool) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClear: () => void;
+}
+
+const TOOLS: { tool: ConstructionTool; label: string; title: string }[] = [
+  { tool: 'point', label: 'Point', title: 'Tap to place a labeled point' },
+  { tool: 'ruler', label: 'Ruler', title: 'Drag to draw a segment; snaps to points, the grid and 15° steps' },
+  { tool: 'compass', label: 'Compass', title: 'Drag from the center to draw a circle' },
+  { tool: 'protractor', label: 'Protractor', title: 'Tap an arm, the vertex, then the other arm to measure an angle' },
+  { tool: 'label', label: 'Label', title: 'Tap a point to rename it' },
+  { tool: 'erase', label: 'Eraser', title: 'Tap a shape or point to remove it' },
+];
+
+const ConstructionToolbar: React.FC<ConstructionToolbarProps> = ({ tool, canUndo, canRedo, onToolChange, onUndo, onRedo, onClear }) => {
+  const buttonClassName = 'px-4 py-2 text-sm bg-gray-600 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {TOOLS.map(({ tool: option, label, title }) => (
+          <button key={option} onClick={() => onToolChange(option)} className={`${buttonClassName} ${tool === option ? 'ring-2 ring-yellow-400' : ''}`} title={title}>{label}</button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <button onClick={onUndo} disabled={!canUndo} className={buttonClassName} title="Undo (Ctrl+Z)">Undo</button>
+        <button onClick={onRedo} disabled={!canRedo} className={buttonClassName} title="Redo (Ctrl+Shift+Z)">Redo</button>
+        <button onClick={onClear} className="px-4 py-2 text-sm bg-yellow-600 rounded-md hover:bg-yellow-700 transition-colors">Clear</button>
+      </div>
+    </div>
+  );
+};
+
+export default ConstructionToolbar;
@@ -1,133 +1,127 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Annotation, Construction, DrawingData, Stroke } from '../types';
+import {
+  CANVAS_BACKGROUND, EMPTY_STROKE_HISTORY, StrokeHistory, annotationsMatchDrawing, commitStrokes, redoStrokes, renderStrokes, undoStrokes,
+} from '../services/strokes';
+import {
+  ConstructionHistory, ConstructionTool, EMPTY_CONSTRUCTION, EMPTY_CONSTRUCTION_HISTORY, commitConstruction, drawConstruction,
+  isEmptyConstruction, redoConstruction, undoConstruction,
+} from '../services/construction';
+import StrokeCanvas, { DrawingTool, StrokeCanvasHandle } from './StrokeCanvas';
+import DrawingToolbar from './DrawingToolbar';
+import ConstructionCanvas from './ConstructionCanvas';
+import ConstructionToolbar from './ConstructionToolbar';
+import MathText from './MathText';
+import { recognizeHandwriting } from '../services/tutorApi';
+import AnnotationOverlay from './AnnotationOverlay';
 
 interface DrawingPadProps {
   isOpen: boolean;
   onClose: () => void;
-  onSend: (imageDataUrl: string) => void;
+  // `recognizedMath` is the LaTeX the student confirmed for their handwriting, if they had it read.
+  onSend: (imageDataUrl: string, drawing: DrawingData, recognizedMath?: string) => void;
+  authToken: string | null;
+  // Tutor marks on the last drawing sent from the pad, shown over the strokes while the student revises.
+  annotatedDrawing?: { drawing: DrawingData; annotations: Annotation[] };
 }
 
-const DrawingPad: React.FC<DrawingPadProps> = ({ isOpen, onClose, onSend }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const contextRef = useRef<CanvasRenderingContext2D | null>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
+const DrawingPad: React.FC<DrawingPadProps> = ({ isOpen, onClose, onSend, authToken, annotatedDrawing }) => {
+  const canvasRef = useRef<StrokeCanvasHandle>(null);
   const [color, setColor] = useState('#FFFFFF');
   const [lineWidth, setLineWidth] = useState(5);
-  const ERASER_COLOR = '#111827'; // Corresponds to bg-gray-900
+  const [tool, setTool] = useState<DrawingTool>('pen');
+  const [history, setHistory] = useState<StrokeHistory>(EMPTY_STROKE_HISTORY);
+  // Construction mode draws exact figures on a layer above the freehand strokes; each layer keeps its own undo.
+  const [mode, setMode] = useState<'freehand' | 'construction'>('freehand');
+  const [constructionTool, setConstructionTool] = useState<ConstructionTool>('ruler');
+  const [constructionHistory, setConstructionHistory] = useState<ConstructionHistory>(EMPTY_CONSTRUCTION_HISTORY);
+  // null until the student asks for their handwriting to be read; an empty string means nothing legible was found.
+  const [recognizedMath, setRecognizedMath] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [canvasSize, setCanvasSize] = useState<{ width: number; height: number } | null>(null);
+
+  const handleCommit = useCallback((strokes: Stroke[]) => {
+    setHistory(prev => commitStrokes(prev, strokes));
+  }, []);
+
+  const handleConstructionCommit = useCallback((construction: Construction) => {
+    setConstructionHistory(prev => commitConstruction(prev, construction));
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    if (mode === 'construction') setConstructionHistory(undoConstruction);
+    else setHistory(undoStrokes);
+  }, [mode]);
+  const handleRedo = useCallback(() => {
+    if (mode === 'construction') setConstructionHistory(redoConstruction);
+    else setHistory(redoStrokes);
+  }, [mode]);
 
-  // Resize handler now accounts for both window size changes and high-DPI displays.
-  const handleResize = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const dpr = window.devicePixelRatio || 1;
-    const rect = canvas.getBoundingClientRect();
-
-    // Only update if the size or resolution has changed to avoid unnecessary redraws.
-    if (canvas.width !== rect.width * dpr || canvas.height !== rect.height * dpr) {
-      canvas.width = rect.width * dpr;
-      canvas.height = rect.height * dpr;
-
-      const context = canvas.getContext('2d');
-      if (!context) return;
-      
-      // Scale the context to match the device pixel ratio, ensuring 1-to-1 mapping.
-      context.scale(dpr, dpr);
-
-      // Canvas styles are reset on resize, so we must re-apply them.
-      context.lineCap = 'round';
-      context.lineJoin = 'round';
-      context.strokeStyle = color;
-      context.lineWidth = lineWidth;
-      contextRef.current = context;
-    }
-  }, [color, lineWidth]);
-
-  // This effect manages the canvas setup and attaches the resize listener.
   useEffect(() => {
-    if (isOpen) {
-      handleResize(); // Set initial size correctly.
-      window.addEventListener('resize', handleResize);
-
-      // Cleanup function to remove the listener when the component unmounts or closes.
-      return () => {
-        window.removeEventListener('resize', handleResize);
-      };
-    }
-  }, [isOpen, handleResize]);
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, handleUndo, handleRedo]);
 
-  // These effects update the drawing context when color or line width changes.
-  useEffect(() => {
-    if (contextRef.current) {
-      contextRef.current.strokeStyle = color;
-    }
-  }, [color]);
-  
+  // A reading only describes the strokes it was made from.
   useEffect(() => {
-    if (contextRef.current) {
-      contextRef.current.lineWidth = lineWidth;
-    }
-  }, [lineWidth]);
+    setRecognizedMath(null);
+  }, [history.present]);
 
-  const getCoords = (e: React.MouseEvent | React.TouchEvent) => {
-    const event = e.nativeEvent;
+  const handleReadMath = async () => {
     const canvas = canvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
-    const rect = canvas.getBoundingClientRect();
-
-    let clientX, clientY;
-    if (event instanceof MouseEvent) {
-      clientX = event.clientX;
-      clientY = event.clientY;
-    } else if (event instanceof TouchEvent && event.touches.length > 0) {
-      clientX = event.touches[0].clientX;
-      clientY = event.touches[0].clientY;
-    } else {
-      return { x: 0, y: 0 };
+    if (!canvas || !authToken) return;
+    const drawing = canvas.getDrawing();
+    const dataUrl = renderStrokes(drawing.strokes, drawing.width, drawing.height, CANVAS_BACKGROUND, window.devicePixelRatio || 1).toDataURL('image/png');
+    setIsReading(true);
+    try {
+      setRecognizedMath(await recognizeHandwriting(authToken, dataUrl));
+    } catch (error) {
+      console.error('Failed to read handwriting:', error);
+      alert('There was an error reading your handwriting. You can still send the drawing.');
+    } finally {
+      setIsReading(false);
     }
-    
-    // This calculation correctly finds the pointer position relative to the canvas.
-    return {
-      x: clientX - rect.left,
-      y: clientY - rect.top,
-    };
-  };
-
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!contextRef.current) return;
-    const { x, y } = getCoords(e);
-    contextRef.current.beginPath();
-    contextRef.current.moveTo(x, y);
-    setIsDrawing(true);
-  };
-
-  const finishDrawing = () => {
-    if (!contextRef.current) return;
-    contextRef.current.closePath();
-    setIsDrawing(false);
-  };
-
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing || !contextRef.current) return;
-    const { x, y } = getCoords(e);
-    contextRef.current.lineTo(x, y);
-    contextRef.current.stroke();
   };
 
   const handleClear = () => {
-    const canvas = canvasRef.current;
-    const context = contextRef.current;
-    if (canvas && context) {
-      // The coordinates for clearRect are scaled, so this clears the entire visible area.
-      const rect = canvas.getBoundingClientRect();
-      context.clearRect(0, 0, rect.width, rect.height);
+    if (mode === 'construction') {
+      if (!isEmptyConstruction(constructionHistory.present)) handleConstructionCommit(EMPTY_CONSTRUCTION);
+    } else if (history.present.length > 0) {
+      handleCommit([]);
     }
   };
 
+  // The tutor's marks are hidden once the strokes or pad size no longer match what they marked.
+  const showAnnotations = !!annotatedDrawing && !!canvasSize && annotationsMatchDrawing(annotatedDrawing.drawing, history.present, canvasSize);
+
+  const construction = constructionHistory.present;
+  const hasConstruction = !isEmptyConstruction(construction);
+
   const handleSend = () => {
     const canvas = canvasRef.current;
     if (canvas) {
-      const dataUrl = canvas.toDataURL('image/png');
-      onSend(dataUrl);
+      const drawing: DrawingData = { ...canvas.getDrawing(), ...(hasConstruction ? { construction } : {}) };
+      const scale = window.devicePixelRatio || 1;
+      const image = renderStrokes(drawing.strokes, drawing.width, drawing.height, CANVAS_BACKGROUND, scale);
+      if (drawing.construction) {
+        const context = image.getContext('2d')!;
+        context.setTransform(scale, 0, 0, scale, 0, 0);
+        drawConstruction(context, drawing.construction, drawing.width, drawing.height);
+      }
+      onSend(image.toDataURL('image/png'), drawing, recognizedMath?.trim() || undefined);
+      // The strokes stay on the pad so the student can fix them up once the tutor marks them.
       onClose(); // Close pad after sending
     }
   };
@@ -137,48 +131,110 @@ const DrawingPad: React.FC<DrawingPadProps> = ({ isOpen, onClose, onSend }) => {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="drawing-pad-title">
       <div className="bg-gray-800 rounded-lg shadow-2xl w-full h-full max-w-4xl max-h-[90vh] flex flex-col">
-        <header className="p-4 border-b border-gray-700">
-            <h2 id="drawing-pad-title" className="text-lg font-semibold text-center">Drawing Pad</h2>
+        <header className="p-4 border-b border-gray-700 flex items-center justify-between gap-4">
+            <h2 id="drawing-pad-title" className="text-lg font-semibold">Drawing Pad</h2>
+            <div className="flex rounded-md overflow-hidden border border-gray-600 text-sm" role="group" aria-label="Drawing mode">
+              {(['freehand', 'construction'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  aria-pressed={mode === option}
+                  className={`px-3 py-1 capitalize transition-colors ${mode === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
         </header>
 
-        <div className="p-4 flex flex-wrap items-center justify-center gap-4 border-b border-gray-700">
-            <div className="flex items-center gap-2">
-                <span className="text-sm">Color:</span>
-                {['#FFFFFF', '#FF3B30', '#34C759', '#007AFF', '#FF9500'].map(c => (
-                    <button key={c} onClick={() => setColor(c)} style={{ backgroundColor: c }} className={`w-8 h-8 rounded-full border-2 transition-transform transform hover:scale-110 ${color === c ? 'border-yellow-400 scale-110' : 'border-gray-600'}`} aria-label={`Color ${c}`}></button>
-                ))}
-            </div>
-            <div className="flex items-center gap-3">
-                <span className="text-sm">Size:</span>
-                {[2, 5, 10, 20].map(size => (
-                    <button key={size} onClick={() => setLineWidth(size)} className={`w-8 h-8 rounded-full flex items-center justify-center border-2 transition-transform transform hover:scale-110 ${lineWidth === size ? 'border-yellow-400 scale-110' : 'border-gray-600'}`} aria-label={`Brush size ${size}`}>
-                        <span style={{width: `${size+2}px`, height: `${size+2}px`}} className="bg-white rounded-full block"></span>
-                    </button>
-                ))}
-            </div>
-            <div className="flex items-center gap-2">
-                 <button onClick={() => setColor(ERASER_COLOR)} className={`px-4 py-2 bg-gray-600 rounded-md text-sm hover:bg-gray-700 transition-colors ${color === ERASER_COLOR ? 'ring-2 ring-yellow-400' : ''}`}>Eraser</button>
-                 <button onClick={handleClear} className="px-4 py-2 bg-yellow-600 rounded-md text-sm hover:bg-yellow-700 transition-colors">Clear</button>
-            </div>
+        <div className="p-4 border-b border-gray-700">
+          {mode === 'construction' ? (
+            <ConstructionToolbar
+              tool={constructionTool}
+              canUndo={constructionHistory.past.length > 0}
+              canRedo={constructionHistory.future.length > 0}
+              onToolChange={setConstructionTool}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              onClear={handleClear}
+            />
+          ) : (
+            <DrawingToolbar
+              tool={tool}
+              color={color}
+              lineWidth={lineWidth}
+              canUndo={history.past.length > 0}
+              canRedo={history.future.length > 0}
+              onToolChange={setTool}
+              onColorChange={setColor}
+              onLineWidthChange={setLineWidth}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              onClear={handleClear}
+            />
+          )}
         </div>
-        
+
         <div className="flex-grow p-4 relative">
-            <canvas
+            <StrokeCanvas
               ref={canvasRef}
-              onMouseDown={startDrawing}
-              onMouseUp={finishDrawing}
-              onMouseLeave={finishDrawing}
-              onMouseMove={draw}
-              onTouchStart={startDrawing}
-              onTouchEnd={finishDrawing}
-              onTouchMove={draw}
-              className="absolute top-0 left-0 w-full h-full bg-gray-900 rounded-md cursor-crosshair"
+              strokes={history.present}
+              tool={tool}
+              color={color}
+              lineWidth={lineWidth}
+              onCommit={handleCommit}
+              onResize={setCanvasSize}
+              className="absolute top-0 left-0 w-full h-full"
+            />
+            <ConstructionCanvas
+              construction={construction}
+              tool={constructionTool}
+              active={mode === 'construction'}
+              onCommit={handleConstructionCommit}
+              className="absolute top-0 left-0 w-full h-full"
             />
+            {showAnnotations && annotatedDrawing && (
+              <AnnotationOverlay
+                annotations={annotatedDrawing.annotations}
+                frame={{ width: annotatedDrawing.drawing.width, height: annotatedDrawing.drawing.height }}
+              />
+            )}
         </div>
 
+        {recognizedMath !== null && (
+          <div className="px-4 pt-4 space-y-2">
+            {recognizedMath.trim() ? (
+              <>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-300 flex-shrink-0">We read:</span>
+                  <MathText text={`$$${recognizedMath}$$`} className="flex-grow min-w-0 text-white" />
+                  <button onClick={() => setRecognizedMath(null)} className="px-3 py-1 bg-gray-600 rounded-md text-sm hover:bg-gray-700 transition-colors">Discard</button>
+                </div>
+                <input
+                  value={recognizedMath}
+                  onChange={(e) => setRecognizedMath(e.target.value)}
+                  className="w-full px-2 py-1 bg-gray-900 border border-gray-600 rounded font-mono text-sm text-white focus:outline-none focus:border-blue-500"
+                  aria-label="Recognized math (LaTeX)"
+                />
+                <p className="text-xs text-gray-400">Fix anything we misread, then press Send. The tutor gets this along with your drawing.</p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-400">We couldn't find any handwritten math. You can still send the drawing.</p>
+            )}
+          </div>
+        )}
+
         <footer className="p-4 flex justify-end gap-4 border-t border-gray-700">
           <button onClick={onClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Cancel</button>
-          <button onClick={handleSend} className="px-6 py-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors">Send</button>
+          <button
+            onClick={handleReadMath}
+            disabled={history.present.length === 0 || isReading || !authToken}
+            className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Turn your handwriting into math you can check before sending"
+          >
+            {isReading ? 'Reading...' : 'Read My Math'}
+          </button>
+          <button onClick={handleSend} disabled={history.present.length === 0 && !hasConstruction} className="px-6 py-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Send</button>
         </footer>
       </div>
     </div>
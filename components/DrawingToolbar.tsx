@@ -0,0 +1,54 @@
+import React from 'react';
+import { DrawingTool } from './StrokeCanvas';
+
+interface DrawingToolbarProps {
+  tool: DrawingTool;
+  color: string;
+  lineWidth: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onToolChange: (tool: DrawingTool) => void;
+  onColorChange: (color: string) => void;
+  onLineWidthChange: (width: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClear: () => void;
+  compact?: boolean;
+}
+
+export const PEN_COLORS = ['#FFFFFF', '#FF3B30', '#34C759', '#007AFF', '#FF9500'];
+export const BRUSH_SIZES = [2, 5, 10, 20];
+
+const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
+  tool, color, lineWidth, canUndo, canRedo, onToolChange, onColorChange, onLineWidthChange, onUndo, onRedo, onClear, compact = false,
+}) => {
+  const swatchSize = compact ? 'w-6 h-6' : 'w-8 h-8';
+  const buttonClassName = `${compact ? 'px-2 py-1 text-xs' : 'px-4 py-2 text-sm'} bg-gray-600 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed`;
+
+  return (
+    <div className={`flex flex-wrap items-center justify-center ${compact ? 'gap-2' : 'gap-4'}`}>
+      <div className="flex items-center gap-2">
+        {!compact && <span className="text-sm">Color:</span>}
+        {PEN_COLORS.map(c => (
+          <button key={c} onClick={() => { onColorChange(c); onToolChange('pen'); }} style={{ backgroundColor: c }} className={`${swatchSize} rounded-full border-2 transition-transform transform hover:scale-110 ${tool === 'pen' && color === c ? 'border-yellow-400 scale-110' : 'border-gray-600'}`} aria-label={`Color ${c}`}></button>
+        ))}
+      </div>
+      <div className={`flex items-center ${compact ? 'gap-2' : 'gap-3'}`}>
+        {!compact && <span className="text-sm">Size:</span>}
+        {BRUSH_SIZES.map(size => (
+          <button key={size} onClick={() => onLineWidthChange(size)} className={`${swatchSize} rounded-full flex items-center justify-center border-2 transition-transform transform hover:scale-110 ${lineWidth === size ? 'border-yellow-400 scale-110' : 'border-gray-600'}`} aria-label={`Brush size ${size}`}>
+            <span style={{ width: `${Math.min(size + 2, compact ? 16 : 22)}px`, height: `${Math.min(size + 2, compact ? 16 : 22)}px` }} className="bg-white rounded-full block"></span>
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <button onClick={() => onToolChange('eraser')} className={`${buttonClassName} ${tool === 'eraser' ? 'ring-2 ring-yellow-400' : ''}`} title="Erase whole strokes">Eraser</button>
+        <button onClick={onUndo} disabled={!canUndo} className={buttonClassName} title="Undo (Ctrl+Z)">Undo</button>
+        <button onClick={onRedo} disabled={!canRedo} className={buttonClassName} title="Redo (Ctrl+Shift+Z)">Redo</button>
+        <button onClick={onClear} className={`${compact ? 'px-2 py-1 text-xs' : 'px-4 py-2 text-sm'} bg-yellow-600 rounded-md hover:bg-yellow-700 transition-colors`}>Clear</button>
+      </div>
+    </div>
+  );
+};
+
+export default DrawingToolbar;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { SessionRecord } from '../types';
+import { fetchSessionSummary } from '../services/tutorApi';
+import { ExportFormat, downloadFile, exportFileName, printHtml, sessionToHtml, sessionToMarkdown } from '../services/sessionExport';
+
+interface ExportDialogProps {
+  session: SessionRecord | null;
+  authToken: string | null;
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'markdown', label: 'Markdown', description: 'A .md file for notes apps.' },
+  { value: 'html', label: 'Web page', description: 'A single .html file that opens in any browser.' },
+  { value: 'pdf', label: 'PDF', description: 'Opens the print dialog; choose "Save as PDF".' },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ session, authToken, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('html');
+  const [includeSummary, setIncludeSummary] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (!session) return;
+    setIsExporting(true);
+    let summary = null;
+    if (includeSummary && authToken) {
+      try {
+        summary = await fetchSessionSummary(authToken, session.transcript);
+      } catch (error) {
+        console.error('Failed to summarize session:', error);
+        if (!window.confirm('The summary could not be generated. Export without it?')) {
+          setIsExporting(false);
+          return;
+        }
+      }
+    }
+
+    if (format === 'markdown') {
+      downloadFile(exportFileName(session, 'md'), sessionToMarkdown(session, summary), 'text/markdown');
+    } else if (format === 'html') {
+      downloadFile(exportFileName(session, 'html'), sessionToHtml(session, summary), 'text/html');
+    } else {
+      printHtml(sessionToHtml(session, summary));
+    }
+    setIsExporting(false);
+    onClose();
+  };
+
+  if (!session) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="export-title">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-md flex flex-col">
+        <header className="p-4 border-b border-gray-700">
+          <h2 id="export-title" className="text-lg font-semibold text-center">Export Study Notes</h2>
+          <p className="text-sm text-gray-400 text-center mt-1 truncate">{session.title}</p>
+        </header>
+
+        <div className="p-4 space-y-4">
+          <fieldset className="space-y-2">
+            <legend className="block text-sm text-gray-300 mb-1">Format</legend>
+            {FORMATS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setFormat(option.value)}
+                className={`w-full text-left px-3 py-2 rounded-md border transition-colors ${format === option.value ? 'border-blue-500 bg-gray-900' : 'border-gray-600 hover:border-gray-500'}`}
+                aria-pressed={format === option.value}
+              >
+                <span className="block font-semibold">{option.label}</span>
+                <span className="block text-xs text-gray-400">{option.description}</span>
+              </button>
+            ))}
+          </fieldset>
+
+          <label className="flex items-start gap-3 text-sm">
+            <input type="checkbox" checked={includeSummary} onChange={(e) => setIncludeSummary(e.target.checked)} className="mt-1" />
+            <span>
+              Add an AI summary at the top
+              <span className="block text-xs text-gray-400">Key concepts and mistakes, written from the conversation text.</span>
+            </span>
+          </label>
+        </div>
+
+        <footer className="p-4 flex justify-end gap-4 border-t border-gray-700">
+          <button onClick={onClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Cancel</button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || session.transcript.length === 0}
+            className="px-6 py-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? (includeSummary ? 'Summarizing...' : 'Exporting...') : 'Export'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,96 @@
+import React, { useRef, useEffect, useMemo } from 'react';
+import { GraphState } from '../types';
+import { CURVE_COLORS, compileGraph, drawGraph, formatNumber } from '../services/graphing';
+import MathText from './MathText';
+
+interface GraphPanelProps {
+  graph: GraphState;
+  onChange: (graph: GraphState) => void;
+  onShare: () => void;
+  canShare: boolean;
+  onClose: () => void;
+}
+
+const SLIDER_STEPS = 200;
+
+const GraphPanel: React.FC<GraphPanelProps> = ({ graph, onChange, onShare, canShare, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const curves = useMemo(() => compileGraph(graph.expressions), [graph.expressions]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+    const redraw = () => {
+      const { width, height } = container.getBoundingClientRect();
+      if (width === 0 || height === 0) return;
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+      const ctx = canvas.getContext('2d')!;
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      drawGraph(ctx, width, height, graph, curves);
+    };
+    redraw();
+    const observer = new ResizeObserver(redraw);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [graph, curves]);
+
+  const setParameter = (name: string, value: number) => {
+    onChange({ ...graph, parameters: graph.parameters.map(parameter => (parameter.name === name ? { ...parameter, value } : parameter)) });
+  };
+
+  return (
+    <section className="w-full md:w-[28rem] flex-shrink-0 h-96 md:h-auto flex flex-col border-b md:border-b-0 md:border-l border-gray-700 bg-gray-800" aria-label="Graph">
+      <div className="px-4 py-2 flex items-center justify-between border-b border-gray-700">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-300">Graph</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onShare}
+            disabled={!canShare}
+            className="px-3 py-1 bg-blue-600 rounded-md text-sm hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Send to tutor
+          </button>
+          <button onClick={onClose} className="px-3 py-1 bg-gray-600 rounded-md text-sm hover:bg-gray-700 transition-colors" aria-label="Close graph">
+            Close
+          </button>
+        </div>
+      </div>
+      <ul className="px-4 py-2 flex flex-wrap gap-x-4 gap-y-1 border-b border-gray-700 text-sm">
+        {graph.expressions.map((expression, index) => (
+          <li key={index} className="flex items-center gap-2">
+            <span className="w-3 h-1 rounded-full" style={{ backgroundColor: CURVE_COLORS[index % CURVE_COLORS.length] }} />
+            <span className="font-mono">{expression}</span>
+          </li>
+        ))}
+      </ul>
+      <div ref={containerRef} className="flex-grow relative min-h-0">
+        <canvas ref={canvasRef} className="absolute top-0 left-0 w-full h-full" role="img" aria-label={`Graph of ${graph.expressions.join(', ')}`} />
+      </div>
+      {graph.parameters.length > 0 && (
+        <div className="p-4 border-t border-gray-700 space-y-2">
+          {graph.parameters.map(parameter => (
+            <label key={parameter.name} className="flex items-center gap-3 text-sm">
+              <MathText text={`$${parameter.name}$`} className="w-6 text-center" />
+              <input
+                type="range"
+                min={parameter.min}
+                max={parameter.max}
+                step={(parameter.max - parameter.min) / SLIDER_STEPS}
+                value={parameter.value}
+                onChange={(e) => setParameter(parameter.name, Number(e.target.value))}
+                className="flex-grow"
+              />
+              <span className="w-12 text-right tabular-nums">{formatNumber(parameter.value)}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default GraphPanel;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { HintRequest } from '../types';
+import { HINT_LEVELS, SOLUTION_LEVEL, hintLabel } from '../services/hintLadder';
+import { LockIcon } from './Icons';
+
+interface HintLadderBarProps {
+  // Highest level used on the current step, 0 before the first hint.
+  level: number;
+  revealLocked: boolean;
+  disabled: boolean;
+  onRequest: (request: HintRequest) => void;
+}
+
+const buttonClassName = 'px-3 py-1 rounded-full transition-colors text-gray-300 hover:text-white hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent';
+
+const HintLadderBar: React.FC<HintLadderBarProps> = ({ level, revealLocked, disabled, onRequest }) => (
+  <div className="flex items-center gap-3 text-xs">
+    <div className="flex items-center bg-gray-800 rounded-full p-1" role="group" aria-label="Hints">
+      <button onClick={() => onRequest('smaller')} disabled={disabled || level <= 1} className={buttonClassName}>
+        Smaller hint
+      </button>
+      <button onClick={() => onRequest('bigger')} disabled={disabled || level >= HINT_LEVELS.length} className={buttonClassName}>
+        {level === 0 ? 'Give me a hint' : 'Bigger hint'}
+      </button>
+      <button
+        onClick={() => onRequest('reveal')}
+        disabled={disabled || revealLocked || level >= SOLUTION_LEVEL}
+        className={`${buttonClassName} flex items-center gap-1`}
+        title={revealLocked ? 'A parent or teacher has turned this off' : undefined}
+      >
+        {revealLocked && <LockIcon className="w-3 h-3" />}
+        Reveal solution
+      </button>
+    </div>
+    {/* The rungs light up as the student climbs; the last one is the solution. */}
+    <div className="flex items-center gap-1" aria-label={level === 0 ? 'No hints used yet' : `Hint level: ${hintLabel(level)}`}>
+      {Array.from({ length: SOLUTION_LEVEL }, (_, index) => (
+        <span
+          key={index}
+          title={hintLabel(index + 1)}
+          className={`w-2 h-2 rounded-full ${index < level ? (index + 1 === SOLUTION_LEVEL ? 'bg-yellow-400' : 'bg-blue-400') : 'bg-gray-600'}`}
+        />
+      ))}
+    </div>
+  </div>
+);
+
+export default HintLadderBar;
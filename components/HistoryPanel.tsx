@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { SessionRecord } from '../types';
+import { listSessions, renameSession, deleteSession, sessionActiveMs } from '../services/sessionStore';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenSession: (session: SessionRecord) => void;
+  onContinueSession: (session: SessionRecord) => void;
+  canContinue: boolean;
+  onSessionRenamed?: (id: string, title: string) => void;
+  onSessionDeleted?: (id: string) => void;
+  onExportSession?: (session: SessionRecord) => void;
+  profileId: string;
+  activeSessionId?: string | null;
+}
+
+const formatDuration = (session: SessionRecord) => {
+  if (!session.endedAt) return 'In progress';
+  const minutes = Math.max(1, Math.round(sessionActiveMs(session) / 60000));
+  return `${minutes} min`;
+};
+
+// Matches the title and everything said in the session, including handwriting the student had read as math.
+const matchesSearch = (session: SessionRecord, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [session.title, ...session.transcript.flatMap(entry => [entry.text, entry.recognizedMath ?? ''])]
+    .some(text => text.toLowerCase().includes(needle));
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, onOpenSession, onContinueSession, canContinue, onSessionRenamed, onSessionDeleted, onExportSession, profileId, activeSessionId }) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [search, setSearch] = useState('');
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSessions(await listSessions(profileId));
+    } catch (error) {
+      console.error('Failed to load session history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    } else {
+      setEditingId(null);
+      setSearch('');
+    }
+  }, [isOpen, refresh]);
+
+  const handleRename = async (id: string) => {
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+    try {
+      await renameSession(id, title);
+      onSessionRenamed?.(id, title);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to rename session:', error);
+      alert('There was an error renaming the session.');
+    }
+  };
+
+  const handleDelete = async (session: SessionRecord) => {
+    if (!window.confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteSession(session.id);
+      onSessionDeleted?.(session.id);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to delete session:', error);
+      alert('There was an error deleting the session.');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const visibleSessions = sessions.filter(session => matchesSearch(session, search));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="history-title">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full h-full max-w-2xl max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b border-gray-700">
+            <h2 id="history-title" className="text-lg font-semibold text-center">Past Sessions</h2>
+        </header>
+
+        {sessions.length > 0 && (
+          <div className="px-4 pt-4">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search sessions"
+              className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-white focus:outline-none focus:border-blue-500"
+              aria-label="Search sessions"
+            />
+          </div>
+        )}
+
+        <div className="flex-grow overflow-y-auto p-4 space-y-3">
+          {isLoading && sessions.length === 0 ? (
+            <p className="text-center text-gray-400">Loading...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-center text-gray-400">No saved sessions yet. Your sessions will appear here after you start one.</p>
+          ) : visibleSessions.length === 0 ? (
+            <p className="text-center text-gray-400">No sessions match your search.</p>
+          ) : (
+            visibleSessions.map(session => (
+              <div key={session.id} className="bg-gray-900 rounded-md p-3 flex items-center gap-3">
+                <div className="flex-grow min-w-0">
+                  {editingId === session.id ? (
+                    <form onSubmit={(e) => { e.preventDefault(); handleRename(session.id); }}>
+                      <input
+                        value={editingTitle}
+                        onChange={(e) => setEditingTitle(e.target.value)}
+                        onBlur={() => handleRename(session.id)}
+                        className="w-full px-2 py-1 bg-gray-800 border border-gray-600 rounded text-white focus:outline-none focus:border-blue-500"
+                        autoFocus
+                      />
+                    </form>
+                  ) : (
+                    <button onClick={() => onOpenSession(session)} className="text-left w-full">
+                      <p className="font-semibold truncate">{session.title}</p>
+                      <p className="text-xs text-gray-400">
+                        {new Date(session.startedAt).toLocaleString()} · {formatDuration(session)} · {session.transcript.length} messages
+                      </p>
+                    </button>
+                  )}
+                </div>
+                <button
+                  onClick={() => onContinueSession(session)}
+                  disabled={!canContinue || session.transcript.length === 0}
+                  className="px-3 py-1 bg-blue-600 rounded-md text-sm hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Continue
+                </button>
+                <button
+                  onClick={() => { setEditingId(session.id); setEditingTitle(session.title); }}
+                  className="px-3 py-1 bg-gray-600 rounded-md text-sm hover:bg-gray-700 transition-colors"
+                >
+                  Rename
+                </button>
+                {onExportSession && (
+                  <button
+                    onClick={() => onExportSession(session)}
+                    disabled={session.transcript.length === 0}
+                    className="px-3 py-1 bg-gray-600 rounded-md text-sm hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Export
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(session)}
+                  disabled={session.id === activeSessionId}
+                  className="px-3 py-1 bg-red-600 rounded-md text-sm hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Delete
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <footer className="p-4 flex justify-end gap-4 border-t border-gray-700">
+          <button onClick={onClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Close</button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
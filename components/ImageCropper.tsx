@@ -1,4 +1,15 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
+import {
+  CleanupOptions,
+  MAX_IMAGE_DIMENSION,
+  NO_CLEANUP,
+  Quad,
+  cleanUpImage,
+  correctPerspective,
+  downscaleToFit,
+  quadFromRect,
+  rotateImage,
+} from '../services/imageProcessing';
 
 interface Crop {
   x: number;
@@ -12,19 +23,37 @@ interface ImageCropperProps {
   src: string | null;
   onClose: () => void;
   onCrop: (croppedImageUrl: string) => void;
+  // Label of the button that finishes the crop; defaults to "Crop & Send".
+  confirmLabel?: string;
 }
 
 const HANDLE_SIZE = 10;
 const MIN_CROP_SIZE = 20;
+// Corner handles are sized in screen pixels so they stay grabbable on large photos.
+const CORNER_HANDLE_RADIUS = 14;
+const DEFAULT_THRESHOLD = 150;
 
 type Handle = 'top-left' | 'top-middle' | 'top-right' | 'middle-left' | 'middle-right' | 'bottom-left' | 'bottom-middle' | 'bottom-right';
 type Action = 'move' | Handle | null;
+// 'rect' is an axis-aligned crop; 'corners' straightens a page photographed at an angle.
+type CropMode = 'rect' | 'corners';
+type Step = 'adjust' | 'cleanup';
 
 
-const ImageCropper: React.FC<ImageCropperProps> = ({ isOpen, src, onClose, onCrop }) => {
+const ImageCropper: React.FC<ImageCropperProps> = ({ isOpen, src, onClose, onCrop, confirmLabel = 'Crop & Send' }) => {
   const imageRef = useRef<HTMLImageElement | null>(null);
+  // The loaded image after rotation and an initial downscale; all crop coordinates refer to it.
+  const sourceRef = useRef<HTMLCanvasElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const previewRef = useRef<HTMLCanvasElement | null>(null);
+  const correctedRef = useRef<HTMLCanvasElement | null>(null);
   const [crop, setCrop] = useState<Crop>({ x: 0, y: 0, width: 0, height: 0 });
+  const [corners, setCorners] = useState<Quad>(quadFromRect(0, 0));
+  const [mode, setMode] = useState<CropMode>('rect');
+  const [rotation, setRotation] = useState(0);
+  const [step, setStep] = useState<Step>('adjust');
+  const [cleanup, setCleanup] = useState<CleanupOptions>(NO_CLEANUP);
+  const [activeCorner, setActiveCorner] = useState<number | null>(null);
   const [action, setAction] = useState<Action>(null);
   const [dragStartPos, setDragStartPos] = useState({ x: 0, y: 0 });
   const dragStartCropRef = useRef<Crop | null>(null);
@@ -73,18 +102,60 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ isOpen, src, onClose, onCro
     return null;
   }, [crop]);
 
+  // Converts the on-screen corner handle radius into canvas pixels.
+  const getCornerRadius = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return CORNER_HANDLE_RADIUS;
+    const rect = canvas.getBoundingClientRect();
+    return rect.width > 0 ? CORNER_HANDLE_RADIUS * (canvas.width / rect.width) : CORNER_HANDLE_RADIUS;
+  }, []);
+
+  const getCornerAtPosition = useCallback((x: number, y: number): number | null => {
+    const radius = getCornerRadius() * 1.5;
+    const index = corners.findIndex(corner => Math.hypot(corner.x - x, corner.y - y) <= radius);
+    return index === -1 ? null : index;
+  }, [corners, getCornerRadius]);
+
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
-    const image = imageRef.current;
-    if (!canvas || !image || !image.complete) return;
+    const source = sourceRef.current;
+    if (!canvas || !source) return;
     
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    canvas.width = image.naturalWidth;
-    canvas.height = image.naturalHeight;
+    canvas.width = source.width;
+    canvas.height = source.height;
+
+    ctx.drawImage(source, 0, 0);
+
+    if (mode === 'corners') {
+      // Dim everything outside the page outline.
+      ctx.beginPath();
+      ctx.rect(0, 0, canvas.width, canvas.height);
+      ctx.moveTo(corners[0].x, corners[0].y);
+      corners.slice(1).forEach(corner => ctx.lineTo(corner.x, corner.y));
+      ctx.closePath();
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fill('evenodd');
+
+      const radius = getCornerRadius();
+      ctx.strokeStyle = '#FFFFFF';
+      ctx.lineWidth = radius / 4;
+      ctx.beginPath();
+      ctx.moveTo(corners[0].x, corners[0].y);
+      corners.slice(1).forEach(corner => ctx.lineTo(corner.x, corner.y));
+      ctx.closePath();
+      ctx.stroke();
 
-    ctx.drawImage(image, 0, 0);
+      corners.forEach((corner, i) => {
+        ctx.beginPath();
+        ctx.arc(corner.x, corner.y, radius, 0, Math.PI * 2);
+        ctx.fillStyle = i === activeCorner ? '#FACC15' : 'rgba(255, 255, 255, 0.8)';
+        ctx.fill();
+      });
+      return;
+    }
 
     const overlayColor = 'rgba(0, 0, 0, 0.6)';
     ctx.fillStyle = overlayColor;
@@ -113,32 +184,51 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ isOpen, src, onClose, onCro
     handles.forEach(handle => {
         ctx.fillRect(handle.x - HANDLE_SIZE / 2, handle.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
     });
-  }, [crop]);
+  }, [crop, corners, mode, activeCorner, getCornerRadius]);
 
   useEffect(() => {
-    if (isOpen) {
+    if (isOpen && step === 'adjust') {
         draw();
     }
-  }, [crop, isOpen, draw]);
+  }, [crop, isOpen, step, draw]);
+
+  // Rebuilds the working image for the current rotation and resets the selection to cover it.
+  const prepareSource = useCallback((quarterTurns: number) => {
+    const image = imageRef.current;
+    if (!image) return;
+    // Keep some headroom over the output size so perspective correction has detail to sample.
+    const source = downscaleToFit(rotateImage(image, quarterTurns), MAX_IMAGE_DIMENSION * 2);
+    sourceRef.current = source;
+    setCrop({ x: 0, y: 0, width: source.width, height: source.height });
+    setCorners(quadFromRect(source.width, source.height));
+  }, []);
   
   useEffect(() => {
     if (!src || !isOpen) return;
+    setStep('adjust');
+    setRotation(0);
+    setCleanup(NO_CLEANUP);
     const image = new Image();
     image.src = src;
     image.onload = () => {
         imageRef.current = image;
-        setCrop({
-            x: 0,
-            y: 0,
-            width: image.naturalWidth,
-            height: image.naturalHeight,
-        });
+        prepareSource(0);
     };
-  }, [src, isOpen]);
+  }, [src, isOpen, prepareSource]);
+
+  const handleRotate = (quarterTurns: number) => {
+    const next = rotation + quarterTurns;
+    setRotation(next);
+    prepareSource(next);
+  };
 
   const handleInteractionStart = (e: React.MouseEvent | React.TouchEvent) => {
     e.preventDefault();
     const { x, y } = getCanvasCoordinates(e);
+    if (mode === 'corners') {
+      setActiveCorner(getCornerAtPosition(x, y));
+      return;
+    }
     const handle = getHandleAtPosition(x, y);
 
     if (handle) {
@@ -154,6 +244,15 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ isOpen, src, onClose, onCro
   };
 
   const handleInteractionMove = (e: React.MouseEvent | React.TouchEvent) => {
+    if (mode === 'corners') {
+      const canvas = canvasRef.current;
+      if (activeCorner === null || !canvas) return;
+      e.preventDefault();
+      const { x, y } = getCanvasCoordinates(e);
+      const point = { x: Math.max(0, Math.min(canvas.width, x)), y: Math.max(0, Math.min(canvas.height, y)) };
+      setCorners(prev => prev.map((corner, i) => (i === activeCorner ? point : corner)) as Quad);
+      return;
+    }
     if (!action || !dragStartCropRef.current) return;
     e.preventDefault();
     const { x, y } = getCanvasCoordinates(e);
@@ -199,21 +298,25 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ isOpen, src, onClose, onCro
 
   const handleInteractionEnd = () => {
     setAction(null);
+    setActiveCorner(null);
     dragStartCropRef.current = null;
   };
-  
-  const handleFinalCrop = () => {
-    const image = imageRef.current;
-    if (!image || crop.width <= 0 || crop.height <= 0) return;
+
+  // Applies the crop or perspective correction, downscaled to the size sent to the tutor.
+  const getCorrectedImage = (): HTMLCanvasElement | null => {
+    const source = sourceRef.current;
+    if (!source) return null;
+    if (mode === 'corners') return correctPerspective(source, corners);
+    if (crop.width <= 0 || crop.height <= 0) return null;
 
     const tempCanvas = document.createElement('canvas');
     tempCanvas.width = crop.width;
     tempCanvas.height = crop.height;
     const ctx = tempCanvas.getContext('2d');
-    if (!ctx) return;
+    if (!ctx) return null;
     
     ctx.drawImage(
-      image,
+      source,
       crop.x,
       crop.y,
       crop.width,
@@ -223,15 +326,47 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ isOpen, src, onClose, onCro
       crop.width,
       crop.height
     );
-    
-    onCrop(tempCanvas.toDataURL('image/png'));
+    return downscaleToFit(tempCanvas);
+  };
+
+  const handleFinalCrop = () => {
+    const corrected = step === 'cleanup' ? correctedRef.current : getCorrectedImage();
+    if (!corrected) {
+      alert('That outline is too small or twisted to straighten. Please adjust the corners.');
+      return;
+    }
+    onCrop(cleanUpImage(corrected, step === 'cleanup' ? cleanup : NO_CLEANUP).toDataURL('image/png'));
     onClose();
   };
+
+  const handleOpenCleanup = () => {
+    const corrected = getCorrectedImage();
+    if (!corrected) {
+      alert('That outline is too small or twisted to straighten. Please adjust the corners.');
+      return;
+    }
+    correctedRef.current = corrected;
+    setStep('cleanup');
+  };
+
+  useEffect(() => {
+    const preview = previewRef.current;
+    const corrected = correctedRef.current;
+    if (step !== 'cleanup' || !preview || !corrected) return;
+    const cleaned = cleanUpImage(corrected, cleanup);
+    preview.width = cleaned.width;
+    preview.height = cleaned.height;
+    preview.getContext('2d')?.drawImage(cleaned, 0, 0);
+  }, [step, cleanup]);
   
   const handleCanvasMouseMoveForCursor = (e: React.MouseEvent) => {
     const canvas = canvasRef.current;
     if (!canvas || action) return;
     const { x, y } = getCanvasCoordinates(e);
+    if (mode === 'corners') {
+      canvas.style.cursor = activeCorner !== null || getCornerAtPosition(x, y) !== null ? 'grab' : 'default';
+      return;
+    }
     
     const handle = getHandleAtPosition(x, y);
     if (handle) {
@@ -252,10 +387,66 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ isOpen, src, onClose, onCro
      <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="cropper-title">
       <div className="bg-gray-800 rounded-lg shadow-2xl w-full h-full max-w-4xl max-h-[90vh] flex flex-col">
         <header className="p-4 border-b border-gray-700">
-            <h2 id="cropper-title" className="text-lg font-semibold text-center">Crop Your Question</h2>
+            <h2 id="cropper-title" className="text-lg font-semibold text-center">{step === 'adjust' ? 'Crop Your Question' : 'Clean Up the Image'}</h2>
         </header>
+
+        {step === 'adjust' ? (
+          <div className="p-3 flex flex-wrap items-center justify-center gap-2 border-b border-gray-700 text-sm">
+            <div className="flex items-center bg-gray-900 rounded-full p-1" role="group" aria-label="Crop mode">
+              {(['rect', 'corners'] as CropMode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-3 py-1 rounded-full transition-colors ${mode === m ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                  aria-pressed={mode === m}
+                >
+                  {m === 'rect' ? 'Crop' : 'Straighten page'}
+                </button>
+              ))}
+            </div>
+            <button onClick={() => handleRotate(-1)} className="px-3 py-1 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors" aria-label="Rotate left">⟲ Rotate</button>
+            <button onClick={() => handleRotate(1)} className="px-3 py-1 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors" aria-label="Rotate right">Rotate ⟳</button>
+            {mode === 'corners' && <span className="text-gray-400">Drag the four dots onto the corners of the page.</span>}
+          </div>
+        ) : (
+          <div className="p-3 flex flex-wrap items-center justify-center gap-4 border-b border-gray-700 text-sm">
+            <label className="flex items-center gap-2">
+              Contrast
+              <input
+                type="range"
+                min={1}
+                max={3}
+                step={0.1}
+                value={cleanup.contrast}
+                onChange={(e) => setCleanup(prev => ({ ...prev, contrast: Number(e.target.value) }))}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={cleanup.threshold !== null}
+                onChange={(e) => setCleanup(prev => ({ ...prev, threshold: e.target.checked ? DEFAULT_THRESHOLD : null }))}
+              />
+              Black &amp; white
+            </label>
+            {cleanup.threshold !== null && (
+              <label className="flex items-center gap-2">
+                Threshold
+                <input
+                  type="range"
+                  min={40}
+                  max={230}
+                  value={cleanup.threshold}
+                  onChange={(e) => setCleanup(prev => ({ ...prev, threshold: Number(e.target.value) }))}
+                />
+              </label>
+            )}
+            <button onClick={() => setCleanup(NO_CLEANUP)} className="px-3 py-1 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Reset</button>
+          </div>
+        )}
         
         <div className="flex-grow p-4 flex items-center justify-center bg-gray-900 overflow-hidden">
+          {step === 'adjust' ? (
             <canvas
               ref={canvasRef}
               onMouseDown={handleInteractionStart}
@@ -268,13 +459,26 @@ const ImageCropper: React.FC<ImageCropperProps> = ({ isOpen, src, onClose, onCro
               onTouchStart={handleInteractionStart}
               onTouchMove={handleInteractionMove}
               onTouchEnd={handleInteractionEnd}
-              className="max-w-full max-h-full"
+              className="max-w-full max-h-full touch-none"
             />
+          ) : (
+            <canvas ref={previewRef} className="max-w-full max-h-full bg-white" />
+          )}
         </div>
 
         <footer className="p-4 flex justify-end gap-4 border-t border-gray-700">
-          <button onClick={onClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Cancel</button>
-          <button onClick={handleFinalCrop} className="px-6 py-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors">Crop & Send</button>
+          {step === 'adjust' ? (
+            <>
+              <button onClick={onClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Cancel</button>
+              <button onClick={handleOpenCleanup} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Clean up…</button>
+              <button onClick={handleFinalCrop} className="px-6 py-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors">{confirmLabel}</button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => setStep('adjust')} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Back</button>
+              <button onClick={handleFinalCrop} className="px-6 py-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors">{confirmLabel}</button>
+            </>
+          )}
         </footer>
       </div>
     </div>
@@ -0,0 +1,108 @@
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Annotation, Stroke } from '../types';
+import { EMPTY_STROKE_HISTORY, StrokeHistory, commitStrokes, redoStrokes, undoStrokes } from '../services/strokes';
+import { SnapshotThrottle, renderWhiteboardFrame } from '../services/whiteboard';
+import StrokeCanvas, { DrawingTool, StrokeCanvasHandle } from './StrokeCanvas';
+import DrawingToolbar from './DrawingToolbar';
+import AnnotationOverlay from './AnnotationOverlay';
+
+interface LiveWhiteboardProps {
+  // True while a Live session is connected and can take frames.
+  isStreaming: boolean;
+  onFrame: (base64Jpeg: string) => void;
+  annotations: Annotation[];
+}
+
+const LiveWhiteboard: React.FC<LiveWhiteboardProps> = ({ isStreaming, onFrame, annotations }) => {
+  const canvasRef = useRef<StrokeCanvasHandle>(null);
+  const [color, setColor] = useState('#FFFFFF');
+  const [lineWidth, setLineWidth] = useState(5);
+  const [tool, setTool] = useState<DrawingTool>('pen');
+  const [history, setHistory] = useState<StrokeHistory>(EMPTY_STROKE_HISTORY);
+
+  const isStreamingRef = useRef(isStreaming);
+  const onFrameRef = useRef(onFrame);
+  const lastFrameRef = useRef<string | null>(null);
+  onFrameRef.current = onFrame;
+
+  const throttleRef = useRef<SnapshotThrottle | null>(null);
+  if (!throttleRef.current) {
+    throttleRef.current = new SnapshotThrottle(() => {
+      const canvas = canvasRef.current;
+      if (!canvas || !isStreamingRef.current) return;
+      const drawing = canvas.getDrawing(true);
+      // An empty board is only worth sending to tell the tutor it was cleared.
+      if (drawing.strokes.length === 0 && lastFrameRef.current === null) return;
+      const frame = renderWhiteboardFrame(drawing.strokes, drawing.width, drawing.height);
+      if (frame === lastFrameRef.current) return;
+      lastFrameRef.current = frame;
+      onFrameRef.current(frame);
+    });
+  }
+
+  // A (re)connected session hasn't seen the board yet, so push the current state.
+  useEffect(() => {
+    isStreamingRef.current = isStreaming;
+    lastFrameRef.current = null;
+    if (isStreaming) throttleRef.current!.schedule();
+  }, [isStreaming]);
+
+  useEffect(() => () => throttleRef.current!.cancel(), []);
+
+  const handleInk = useCallback(() => {
+    if (isStreamingRef.current) throttleRef.current!.schedule();
+  }, []);
+
+  const handleCommit = useCallback((strokes: Stroke[]) => {
+    setHistory(prev => commitStrokes(prev, strokes));
+  }, []);
+
+  const handleClear = () => {
+    if (history.present.length > 0) handleCommit([]);
+  };
+
+  return (
+    <section className="w-full md:w-[28rem] flex-shrink-0 h-72 md:h-auto flex flex-col border-b md:border-b-0 md:border-l border-gray-700 bg-gray-800" aria-label="Shared whiteboard">
+      <div className="px-4 py-2 flex items-center justify-between border-b border-gray-700">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-300">Whiteboard</h2>
+        <span className={`flex items-center gap-1.5 text-xs ${isStreaming ? 'text-red-400' : 'text-gray-500'}`}>
+          <span className={`w-2 h-2 rounded-full ${isStreaming ? 'bg-red-500 animate-pulse' : 'bg-gray-600'}`}></span>
+          {isStreaming ? 'Tutor can see this' : 'Not shared'}
+        </span>
+      </div>
+      <div className="p-2 border-b border-gray-700">
+        <DrawingToolbar
+          compact
+          tool={tool}
+          color={color}
+          lineWidth={lineWidth}
+          canUndo={history.past.length > 0}
+          canRedo={history.future.length > 0}
+          onToolChange={setTool}
+          onColorChange={setColor}
+          onLineWidthChange={setLineWidth}
+          onUndo={() => setHistory(undoStrokes)}
+          onRedo={() => setHistory(redoStrokes)}
+          onClear={handleClear}
+        />
+      </div>
+      <div className="flex-grow relative min-h-0">
+        <div className="absolute inset-2">
+          <StrokeCanvas
+            ref={canvasRef}
+            strokes={history.present}
+            tool={tool}
+            color={color}
+            lineWidth={lineWidth}
+            onCommit={handleCommit}
+            onInk={handleInk}
+            className="absolute top-0 left-0 w-full h-full"
+          />
+          <AnnotationOverlay annotations={annotations} />
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default LiveWhiteboard;
@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import katex from 'katex';
+import { normalizeMathMarkup, splitMath } from '../services/mathFormat';
+
+interface MathTextProps {
+  text: string;
+  className?: string;
+  // Typesets bare expressions in undelimited text, e.g. tutor speech transcribed as `x^2 + 1 = 5`.
+  detectBareMath?: boolean;
+}
+
+// Returns null when KaTeX can't parse the expression so the caller can fall back to plain text.
+const renderLatex = (latex: string, displayMode: boolean): string | null => {
+  try {
+    return katex.renderToString(latex, { displayMode, throwOnError: true, output: 'html' });
+  } catch {
+    return null;
+  }
+};
+
+const MathText: React.FC<MathTextProps> = ({ text, className, detectBareMath = false }) => {
+  const segments = useMemo(() => splitMath(detectBareMath ? normalizeMathMarkup(text) : text), [text, detectBareMath]);
+
+  return (
+    <p className={className}>
+      {segments.map((segment, index) => {
+        if (segment.type === 'text') {
+          return <React.Fragment key={index}>{segment.value}</React.Fragment>;
+        }
+        const isDisplay = segment.type === 'display';
+        const html = renderLatex(segment.value, isDisplay);
+        if (html === null) {
+          return <code key={index} className="font-mono text-gray-300">{segment.value}</code>;
+        }
+        return isDisplay ? (
+          <span key={index} className="block my-2 overflow-x-auto" dangerouslySetInnerHTML={{ __html: html }} />
+        ) : (
+          <span key={index} dangerouslySetInnerHTML={{ __html: html }} />
+        );
+      })}
+    </p>
+  );
+};
+
+export default MathText;
@@ -1,22 +1,134 @@
-import React, { useState, FormEvent } from 'react';
+import React, { useState, useEffect, FormEvent } from 'react';
 import { LockIcon } from './Icons';
+import { Profile } from '../types';
+import { listProfiles, createProfile, signIn } from '../services/profileStore';
+import { ApiError } from '../services/tutorApi';
+import ProfileForm, { ROLE_LABELS, MAX_PIN_LENGTH, inputClassName, primaryButtonClassName } from './ProfileForm';
 
 interface PinScreenProps {
-  onSuccess: () => void;
+  onSuccess: (profile: Profile, authToken: string) => void;
+  initialProfileId?: string | null;
 }
 
-const PinScreen: React.FC<PinScreenProps> = ({ onSuccess }) => {
+const PinScreen: React.FC<PinScreenProps> = ({ onSuccess, initialProfileId }) => {
+  const [profiles, setProfiles] = useState<Profile[] | null>(null);
+  const [selectedProfile, setSelectedProfile] = useState<Profile | null>(null);
   const [pin, setPin] = useState('');
   const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
 
-  const handleSubmit = (e: FormEvent) => {
+  useEffect(() => {
+    listProfiles()
+      .then(loaded => {
+        setProfiles(loaded);
+        setSelectedProfile(loaded.find(profile => profile.id === initialProfileId) ?? null);
+      })
+      .catch(loadError => {
+        console.error('Failed to load profiles:', loadError);
+        setError('Could not reach the tutor server. Please make sure it is running.');
+      });
+  }, [initialProfileId]);
+
+  const selectProfile = (profile: Profile | null) => {
+    setSelectedProfile(profile);
+    setPin('');
+    setError('');
+  };
+
+  const handleUnlock = async (e: FormEvent) => {
     e.preventDefault();
-    if (pin === 'bruh') {
-      onSuccess();
-    } else {
-      setError('Incorrect PIN. Please try again.');
+    if (!selectedProfile) return;
+    setIsBusy(true);
+    try {
+      const { profile, token } = await signIn(selectedProfile.id, pin);
+      onSuccess(profile, token);
+    } catch (signInError) {
+      if (signInError instanceof ApiError && signInError.status === 401) {
+        setError('Incorrect PIN. Please try again.');
+      } else {
+        console.error('Failed to sign in:', signInError);
+        setError('Could not reach the tutor server. Please try again.');
+      }
       setPin('');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreateFirstProfile = async (name: string, role: Profile['role'], newPin: string) => {
+    const { profile, token } = await createProfile(name, role, newPin);
+    if (!token) throw new Error('The server did not sign in the new profile.');
+    onSuccess(profile, token);
+  };
+
+  const renderContent = () => {
+    if (profiles === null) {
+      return error
+        ? <p className="text-red-500">{error}</p>
+        : <p className="text-gray-400">Loading profiles...</p>;
+    }
+
+    if (profiles.length === 0) {
+      return (
+        <>
+          <h1 className="text-3xl font-bold mb-2">Welcome!</h1>
+          <p className="text-gray-400 mb-8">Create the first profile for this tutor. A parent or teacher profile can add more later.</p>
+          <ProfileForm submitLabel="Create Profile" onCreate={handleCreateFirstProfile} />
+        </>
+      );
     }
+
+    if (selectedProfile) {
+      return (
+        <>
+          <h1 className="text-3xl font-bold mb-2">Hi, {selectedProfile.name}</h1>
+          <p className="text-gray-400 mb-8">Enter your PIN to access the tutor.</p>
+          <form onSubmit={handleUnlock}>
+            <input
+              type="password"
+              value={pin}
+              onChange={(e) => {
+                setPin(e.target.value);
+                setError('');
+              }}
+              className={`${inputClassName} text-center text-2xl tracking-widest`}
+              placeholder="••••"
+              maxLength={MAX_PIN_LENGTH}
+              autoFocus
+            />
+            {error && <p className="text-red-500 mt-4">{error}</p>}
+            <button type="submit" disabled={isBusy || !pin} className={primaryButtonClassName}>
+              Unlock
+            </button>
+          </form>
+          <button onClick={() => selectProfile(null)} className="mt-4 text-sm text-gray-400 hover:text-white">Not you? Choose another profile</button>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <h1 className="text-3xl font-bold mb-2">Who's learning?</h1>
+        <p className="text-gray-400 mb-8">Choose your profile to continue.</p>
+        <div className="space-y-3">
+          {profiles.map(profile => (
+            <button
+              key={profile.id}
+              onClick={() => selectProfile(profile)}
+              className="w-full flex items-center gap-4 px-4 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors text-left"
+            >
+              <span className="w-10 h-10 rounded-full bg-green-500 flex-shrink-0 flex items-center justify-center font-bold">
+                {profile.name.charAt(0).toUpperCase()}
+              </span>
+              <span className="flex-grow">
+                <span className="block font-semibold">{profile.name}</span>
+                <span className="block text-xs text-gray-400">{ROLE_LABELS[profile.role]}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      </>
+    );
   };
 
   return (
@@ -25,29 +137,7 @@ const PinScreen: React.FC<PinScreenProps> = ({ onSuccess }) => {
         <div className="mx-auto mb-6 bg-gray-800 rounded-full h-20 w-20 flex items-center justify-center">
           <LockIcon className="h-10 w-10 text-blue-400" />
         </div>
-        <h1 className="text-3xl font-bold mb-2">PIN Required</h1>
-        <p className="text-gray-400 mb-8">Enter the PIN to access the tutor.</p>
-        <form onSubmit={handleSubmit}>
-          <input
-            type="password"
-            value={pin}
-            onChange={(e) => {
-              setPin(e.target.value);
-              setError('');
-            }}
-            className="w-full px-4 py-3 bg-gray-800 border-2 border-gray-700 rounded-lg text-white text-center text-2xl tracking-widest focus:outline-none focus:border-blue-500 transition-colors"
-            placeholder="••••"
-            maxLength={4}
-            autoFocus
-          />
-          {error && <p className="text-red-500 mt-4">{error}</p>}
-          <button
-            type="submit"
-            className="w-full mt-6 bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded-lg transition-colors focus:outline-none focus:ring-4 focus:ring-blue-400 focus:ring-opacity-50"
-          >
-            Unlock
-          </button>
-        </form>
+        {renderContent()}
       </div>
     </div>
   );
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ProblemBoardState } from '../types';
+import { CheckIcon } from './Icons';
+import MathText from './MathText';
+
+interface ProblemBoardProps {
+  board: ProblemBoardState;
+}
+
+const ProblemBoard: React.FC<ProblemBoardProps> = ({ board }) => {
+  const doneCount = board.steps.filter(step => step.status === 'done').length;
+
+  return (
+    <aside className="md:w-80 flex-shrink-0 max-h-64 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-l border-gray-700 bg-gray-800/50 p-4 space-y-4" aria-label="Problem board">
+      <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-400">Current Problem</h2>
+      {board.image ? (
+        <img src={board.image} alt="Current math problem" className="rounded-md max-w-full h-auto border border-gray-700" />
+      ) : (
+        <p className="text-sm text-gray-500">Send a photo or drawing of a problem to see it here.</p>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold uppercase tracking-wider text-gray-400">Steps</h3>
+          {board.steps.length > 0 && (
+            <span className="text-xs text-gray-500">{doneCount} of {board.steps.length} done</span>
+          )}
+        </div>
+        {board.steps.length === 0 ? (
+          <p className="text-sm text-gray-500">The tutor will list the steps once you start working on a problem.</p>
+        ) : (
+          <ol className="space-y-2">
+            {board.steps.map((step, index) => (
+              <li
+                key={index}
+                className={`flex items-start gap-3 rounded-md p-2 text-sm transition-colors ${step.status === 'active' ? 'bg-blue-900/40 ring-1 ring-blue-500' : ''}`}
+                aria-current={step.status === 'active' ? 'step' : undefined}
+              >
+                <span className={`w-6 h-6 rounded-full flex-shrink-0 flex items-center justify-center text-xs font-bold
+                  ${step.status === 'done' ? 'bg-green-500 text-white' : step.status === 'active' ? 'bg-blue-500 text-white' : 'bg-gray-700 text-gray-300'}`}
+                >
+                  {step.status === 'done' ? <CheckIcon className="w-4 h-4" /> : index + 1}
+                </span>
+                <MathText text={step.text} className={step.status === 'done' ? 'text-gray-400 line-through' : 'text-white'} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default ProblemBoard;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { QueuedProblem } from '../types';
+import { CheckIcon } from './Icons';
+
+interface ProblemQueueBarProps {
+  problems: QueuedProblem[];
+  hasNext: boolean;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onNext: () => void;
+}
+
+const ProblemQueueBar: React.FC<ProblemQueueBarProps> = ({ problems, hasNext, disabled, onSelect, onNext }) => {
+  const active = problems.find(problem => problem.status === 'active');
+  const allDone = problems.every(problem => problem.status === 'done');
+
+  return (
+    <div className="px-6 py-2 bg-gray-800 border-b border-gray-700 flex items-center gap-3 text-sm">
+      <span className="text-gray-300 flex-shrink-0">
+        {allDone ? 'Worksheet complete' : active ? `${active.label} of ${problems.length}` : 'Worksheet'}
+      </span>
+      <ol className="flex items-center gap-1 overflow-x-auto flex-grow" aria-label="Problem queue">
+        {problems.map((problem, i) => (
+          <li key={problem.id}>
+            <button
+              onClick={() => onSelect(problem.id)}
+              disabled={disabled || problem.status === 'active'}
+              className={`w-7 h-7 rounded-full flex items-center justify-center text-xs transition-colors disabled:cursor-default
+                ${problem.status === 'active' ? 'bg-blue-600 text-white' : problem.status === 'done' ? 'bg-green-700 text-white hover:bg-green-600' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              aria-label={`${problem.label} (${problem.status}) from ${problem.source}`}
+              aria-current={problem.status === 'active' ? 'step' : undefined}
+              title={problem.source}
+            >
+              {problem.status === 'done' ? <CheckIcon className="w-3.5 h-3.5" /> : i + 1}
+            </button>
+          </li>
+        ))}
+      </ol>
+      {!allDone && (
+        <button
+          onClick={onNext}
+          disabled={disabled}
+          className="px-3 py-1 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors flex-shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {hasNext ? 'Next problem' : 'Finish worksheet'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ProblemQueueBar;
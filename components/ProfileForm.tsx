@@ -0,0 +1,104 @@
+import React, { useState, FormEvent } from 'react';
+import { ProfileRole } from '../types';
+
+interface ProfileFormProps {
+  submitLabel: string;
+  onCreate: (name: string, role: ProfileRole, pin: string) => Promise<void>;
+}
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+
+export const ROLE_LABELS: Record<ProfileRole, string> = {
+  student: 'Student',
+  parent: 'Parent',
+  teacher: 'Teacher',
+};
+
+export const inputClassName = "w-full px-4 py-3 bg-gray-800 border-2 border-gray-700 rounded-lg text-white focus:outline-none focus:border-blue-500 transition-colors";
+export const primaryButtonClassName = "w-full mt-6 bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded-lg transition-colors focus:outline-none focus:ring-4 focus:ring-blue-400 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const ProfileForm: React.FC<ProfileFormProps> = ({ submitLabel, onCreate }) => {
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<ProfileRole>('student');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError('Please enter a name.');
+      return;
+    }
+    if (pin.length < MIN_PIN_LENGTH) {
+      setError(`The PIN must be at least ${MIN_PIN_LENGTH} characters.`);
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError('The PINs do not match.');
+      setConfirmPin('');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await onCreate(trimmedName, role, pin);
+    } catch (createError) {
+      console.error('Failed to create profile:', createError);
+      setError(createError instanceof Error ? createError.message : 'Could not create the profile. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-left">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => { setName(e.target.value); setError(''); }}
+        className={inputClassName}
+        placeholder="Name"
+        maxLength={40}
+        autoFocus
+      />
+      <div className="flex gap-2" role="group" aria-label="Profile type">
+        {(Object.keys(ROLE_LABELS) as ProfileRole[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setRole(option)}
+            className={`flex-1 py-2 rounded-lg border-2 transition-colors ${role === option ? 'border-blue-500 bg-gray-800' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+            aria-pressed={role === option}
+          >
+            {ROLE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      <input
+        type="password"
+        value={pin}
+        onChange={(e) => { setPin(e.target.value); setError(''); }}
+        className={`${inputClassName} text-center tracking-widest`}
+        placeholder="Choose a PIN"
+        maxLength={MAX_PIN_LENGTH}
+      />
+      <input
+        type="password"
+        value={confirmPin}
+        onChange={(e) => { setConfirmPin(e.target.value); setError(''); }}
+        className={`${inputClassName} text-center tracking-widest`}
+        placeholder="Confirm PIN"
+        maxLength={MAX_PIN_LENGTH}
+      />
+      {error && <p className="text-red-500 text-center">{error}</p>}
+      <button type="submit" disabled={isBusy} className={primaryButtonClassName}>
+        {submitLabel}
+      </button>
+    </form>
+  );
+};
+
+export default ProfileForm;
@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { Profile } from '../types';
+import { listProfiles } from '../services/profileStore';
+import { UserIcon } from './Icons';
+
+interface ProfileSwitcherProps {
+  profile: Profile;
+  onSwitch: (profileId?: string) => void;
+  onAddProfile: () => void;
+  onOpenSupervisor: () => void;
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profile, onSwitch, onAddProfile, onOpenSupervisor }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [otherProfiles, setOtherProfiles] = useState<Profile[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    listProfiles()
+      .then(profiles => setOtherProfiles(profiles.filter(p => p.id !== profile.id)))
+      .catch(error => console.error('Failed to load profiles:', error));
+  }, [isOpen, profile.id]);
+
+  const handleSelect = (profileId?: string) => {
+    setIsOpen(false);
+    onSwitch(profileId);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-2 px-3 h-10 rounded-full bg-gray-700 hover:bg-gray-600 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-400"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label="Switch profile"
+      >
+        <UserIcon className="w-5 h-5 text-white" />
+        <span className="text-sm font-semibold max-w-[8rem] truncate">{profile.name}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-56 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl z-40 text-left py-1" role="menu">
+          {otherProfiles.map(other => (
+            <button
+              key={other.id}
+              onClick={() => handleSelect(other.id)}
+              className="w-full px-4 py-2 text-sm hover:bg-gray-700 transition-colors text-left"
+              role="menuitem"
+            >
+              Switch to {other.name}
+            </button>
+          ))}
+          {profile.role !== 'student' && (
+            <button
+              onClick={() => { setIsOpen(false); onAddProfile(); }}
+              className="w-full px-4 py-2 text-sm text-blue-400 hover:bg-gray-700 transition-colors text-left border-t border-gray-700"
+              role="menuitem"
+            >
+              Add a profile
+            </button>
+          )}
+          <button
+            onClick={() => { setIsOpen(false); onOpenSupervisor(); }}
+            className="w-full px-4 py-2 text-sm hover:bg-gray-700 transition-colors text-left border-t border-gray-700"
+            role="menuitem"
+          >
+            Supervisor dashboard
+          </button>
+          <button
+            onClick={() => handleSelect()}
+            className="w-full px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 transition-colors text-left border-t border-gray-700"
+            role="menuitem"
+          >
+            Lock and choose profile
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { MasteryRecord, SkillMastery } from '../types';
+import { getMastery, weakSkills } from '../services/mastery';
+import { SKILL_AREAS, findSkill } from '../services/skills';
+
+interface ProgressDashboardProps {
+  isOpen: boolean;
+  profileId: string;
+  onClose: () => void;
+}
+
+const scoreColor = (score: number) =>
+  score >= 0.8 ? 'bg-green-500' : score >= 0.6 ? 'bg-blue-500' : score >= 0.4 ? 'bg-yellow-500' : 'bg-red-500';
+
+const masteryLabel = (score: number) =>
+  score >= 0.8 ? 'Mastered' : score >= 0.6 ? 'Getting there' : score >= 0.4 ? 'Needs practice' : 'Just starting';
+
+const SkillRow: React.FC<{ skill: SkillMastery }> = ({ skill }) => (
+  <li className="bg-gray-900 rounded-md p-3">
+    <div className="flex items-baseline justify-between gap-4">
+      <span className="font-semibold">{findSkill(skill.skillId)?.name ?? skill.skillId}</span>
+      <span className="text-xs text-gray-400 whitespace-nowrap">{masteryLabel(skill.score)}</span>
+    </div>
+    <div className="h-2 bg-gray-700 rounded-full mt-2 overflow-hidden" role="meter" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(skill.score * 100)}>
+      <div className={`h-full rounded-full ${scoreColor(skill.score)}`} style={{ width: `${Math.max(4, skill.score * 100)}%` }} />
+    </div>
+    <p className="text-xs text-gray-400 mt-1">
+      {skill.correct} of {skill.attempts} correct · {skill.hints} {skill.hints === 1 ? 'hint' : 'hints'} · last practiced {new Date(skill.lastPracticedAt).toLocaleDateString()}
+    </p>
+  </li>
+);
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ isOpen, profileId, onClose }) => {
+  const [mastery, setMastery] = useState<MasteryRecord | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    getMastery(profileId)
+      .then(record => { if (!cancelled) setMastery(record); })
+      .catch(error => {
+        console.error('Failed to load progress:', error);
+        alert('There was an error loading your progress.');
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, profileId]);
+
+  if (!isOpen) return null;
+
+  const skills = mastery ? Object.values<SkillMastery>(mastery.skills).filter(skill => findSkill(skill.skillId)) : [];
+  const weak = mastery ? weakSkills(mastery) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="progress-title">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full h-full max-w-2xl max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b border-gray-700">
+          <h2 id="progress-title" className="text-lg font-semibold text-center">Your Progress</h2>
+        </header>
+
+        <div className="flex-grow overflow-y-auto p-4 space-y-6">
+          {!mastery ? (
+            <p className="text-center text-gray-400">Loading...</p>
+          ) : skills.length === 0 ? (
+            <p className="text-center text-gray-400">No skills tracked yet. Your tutor records each skill you practice, and your progress will show up here.</p>
+          ) : (
+            <>
+              {weak.length > 0 && (
+                <section>
+                  <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wide mb-2">Worth practicing next</h3>
+                  <ul className="flex flex-wrap gap-2">
+                    {weak.map(skill => (
+                      <li key={skill.skillId} className="px-3 py-1 bg-yellow-900 text-yellow-300 rounded-full text-sm">{findSkill(skill.skillId)!.name}</li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+              {SKILL_AREAS.map(area => {
+                const areaSkills = skills
+                  .filter(skill => findSkill(skill.skillId)!.area === area.value)
+                  .sort((a, b) => b.lastPracticedAt - a.lastPracticedAt);
+                if (areaSkills.length === 0) return null;
+                return (
+                  <section key={area.value}>
+                    <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wide mb-2">{area.label}</h3>
+                    <ul className="space-y-2">
+                      {areaSkills.map(skill => <SkillRow key={skill.skillId} skill={skill} />)}
+                    </ul>
+                  </section>
+                );
+              })}
+            </>
+          )}
+        </div>
+
+        <footer className="p-4 flex justify-end border-t border-gray-700">
+          <button onClick={onClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Close</button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
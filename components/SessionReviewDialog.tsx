@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { GradeBand, SessionRecord, SessionReview } from '../types';
+import { fetchSessionReview } from '../services/tutorApi';
+import MathText from './MathText';
+
+interface SessionReviewDialogProps {
+  // The session that just ended; the dialog is hidden while this is null.
+  session: SessionRecord | null;
+  authToken: string | null;
+  gradeBand: GradeBand;
+  onStartPractice: (problem: string) => void;
+  onClose: () => void;
+}
+
+const SessionReviewDialog: React.FC<SessionReviewDialogProps> = ({ session, authToken, gradeBand, onStartPractice, onClose }) => {
+  const [review, setReview] = useState<SessionReview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  const loadReview = useCallback(async (signal: { cancelled: boolean }) => {
+    if (!session || !authToken) return;
+    setReview(null);
+    setHasFailed(false);
+    setIsLoading(true);
+    try {
+      const result = await fetchSessionReview(authToken, session.transcript, gradeBand);
+      if (!signal.cancelled) setReview(result);
+    } catch (error) {
+      console.error('Failed to review session:', error);
+      if (!signal.cancelled) setHasFailed(true);
+    } finally {
+      if (!signal.cancelled) setIsLoading(false);
+    }
+  }, [session, authToken, gradeBand]);
+
+  useEffect(() => {
+    const signal = { cancelled: false };
+    loadReview(signal);
+    return () => { signal.cancelled = true; };
+  }, [loadReview]);
+
+  if (!session) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="review-title">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl max-h-full flex flex-col">
+        <header className="p-4 border-b border-gray-700">
+          <h2 id="review-title" className="text-lg font-semibold text-center">Session Summary</h2>
+          <p className="text-sm text-gray-400 text-center mt-1 truncate">{session.title}</p>
+        </header>
+
+        <div className="p-4 overflow-y-auto space-y-6">
+          {isLoading && <p className="text-gray-400 text-center">Looking back over the session...</p>}
+          {hasFailed && (
+            <div className="text-center space-y-3">
+              <p className="text-gray-400">The summary could not be created.</p>
+              <button onClick={() => loadReview({ cancelled: false })} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Try again</button>
+            </div>
+          )}
+
+          {review && (
+            <>
+              <section>
+                <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wide mb-2">Topics covered</h3>
+                {review.topics.length > 0 ? (
+                  <ul className="flex flex-wrap gap-2">
+                    {review.topics.map(topic => (
+                      <li key={topic} className="px-3 py-1 bg-gray-700 rounded-full text-sm"><MathText text={topic} className="inline" /></li>
+                    ))}
+                  </ul>
+                ) : <p className="text-gray-400 text-sm">No math topics came up in this session.</p>}
+              </section>
+
+              <section>
+                <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wide mb-2">Where you needed the most help</h3>
+                {review.hintHotspots.length > 0 ? (
+                  <ul className="space-y-2">
+                    {review.hintHotspots.map(hotspot => (
+                      <li key={hotspot.topic} className="bg-gray-900 rounded-md p-3">
+                        <div className="flex items-baseline justify-between gap-4">
+                          <MathText text={hotspot.topic} className="font-semibold" />
+                          <span className="text-sm text-yellow-400 whitespace-nowrap">{hotspot.hints} {hotspot.hints === 1 ? 'hint' : 'hints'}</span>
+                        </div>
+                        {hotspot.detail && <MathText text={hotspot.detail} className="text-sm text-gray-400 mt-1" />}
+                      </li>
+                    ))}
+                  </ul>
+                ) : <p className="text-gray-400 text-sm">You worked through everything without needing hints.</p>}
+              </section>
+
+              {review.practiceProblems.length > 0 && (
+                <section>
+                  <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wide mb-2">Practice problems</h3>
+                  <ol className="space-y-2">
+                    {review.practiceProblems.map((problem, index) => (
+                      <li key={index} className="flex items-center gap-3 bg-gray-900 rounded-md p-3">
+                        <span className="text-gray-500 font-semibold">{index + 1}.</span>
+                        <MathText text={problem} className="flex-grow" />
+                        <button
+                          onClick={() => onStartPractice(problem)}
+                          className="px-3 py-1 bg-blue-600 rounded-md text-sm hover:bg-blue-700 transition-colors whitespace-nowrap"
+                        >
+                          Try it
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+
+        <footer className="p-4 flex justify-end border-t border-gray-700">
+          <button onClick={onClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Done</button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default SessionReviewDialog;
@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { ProfileSettings, StudentSettings } from '../types';
+import { GRADE_BANDS, SUBJECTS, HINT_STRICTNESS, LANGUAGES, VOICES } from '../services/tutorPersona';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  settings: ProfileSettings;
+  onClose: () => void;
+  onSave: (settings: Partial<StudentSettings>) => void;
+}
+
+const selectClassName = "w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-white focus:outline-none focus:border-blue-500";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, settings, onClose, onSave }) => {
+  const [draft, setDraft] = useState<ProfileSettings>(settings);
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  const update = <K extends keyof ProfileSettings>(key: K, value: ProfileSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = () => {
+    // The reveal lock belongs to the supervisor dashboard; a stale draft must not undo it.
+    const { revealLocked: _ignored, ...editable } = draft;
+    onSave(editable);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="settings-title">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b border-gray-700">
+            <h2 id="settings-title" className="text-lg font-semibold text-center">Tutor Settings</h2>
+        </header>
+
+        <div className="flex-grow overflow-y-auto p-4 space-y-5">
+          <label className="block">
+            <span className="block text-sm text-gray-300 mb-1">Grade level</span>
+            <select value={draft.gradeBand} onChange={(e) => update('gradeBand', e.target.value as ProfileSettings['gradeBand'])} className={selectClassName}>
+              {GRADE_BANDS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="block text-sm text-gray-300 mb-1">Subject</span>
+            <select value={draft.subject} onChange={(e) => update('subject', e.target.value as ProfileSettings['subject'])} className={selectClassName}>
+              {SUBJECTS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+
+          <fieldset>
+            <legend className="block text-sm text-gray-300 mb-1">How much help</legend>
+            <div className="space-y-2">
+              {HINT_STRICTNESS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => update('hintStrictness', option.value)}
+                  className={`w-full text-left px-3 py-2 rounded-md border-2 transition-colors ${draft.hintStrictness === option.value ? 'border-blue-500 bg-gray-900' : 'border-gray-700 hover:border-gray-500'}`}
+                  aria-pressed={draft.hintStrictness === option.value}
+                >
+                  <span className="block font-semibold text-sm">{option.label}</span>
+                  <span className="block text-xs text-gray-400">{option.description}</span>
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="block">
+            <span className="block text-sm text-gray-300 mb-1">Spoken language</span>
+            <select value={draft.language} onChange={(e) => update('language', e.target.value)} className={selectClassName}>
+              {LANGUAGES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="block text-sm text-gray-300 mb-1">Voice</span>
+            <select value={draft.voiceName} onChange={(e) => update('voiceName', e.target.value)} className={selectClassName}>
+              {VOICES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </label>
+
+          <p className="text-xs text-gray-500">Changes apply the next time you start a session.</p>
+        </div>
+
+        <footer className="p-4 flex justify-end gap-4 border-t border-gray-700">
+          <button onClick={onClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Cancel</button>
+          <button onClick={handleSave} className="px-6 py-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors">Save</button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
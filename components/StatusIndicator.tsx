@@ -1,14 +1,14 @@
 
 import React from 'react';
-import { BrainIcon, MicrophoneIcon, SoundWaveIcon } from './Icons';
-
-type Status = 'IDLE' | 'CONNECTING' | 'LISTENING' | 'THINKING' | 'SPEAKING';
+import { BrainIcon, MicrophoneIcon, SoundWaveIcon, ChatIcon } from './Icons';
+import { SessionStatus } from '../types';
 
 interface StatusIndicatorProps {
-  status: Status;
+  status: SessionStatus;
+  isTextOnly?: boolean;
 }
 
-const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status }) => {
+const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status, isTextOnly = false }) => {
   const getStatusContent = () => {
     switch (status) {
       case 'CONNECTING':
@@ -18,7 +18,22 @@ const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status }) => {
             <span className="ml-3">Connecting...</span>
           </>
         );
+      case 'RECONNECTING':
+        return (
+          <>
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-yellow-400"></div>
+            <span className="ml-3 text-yellow-400">Connection lost. Reconnecting...</span>
+          </>
+        );
       case 'LISTENING':
+        if (isTextOnly) {
+          return (
+            <>
+              <ChatIcon className="h-5 w-5 text-blue-400" />
+              <span className="ml-3">Waiting for your message...</span>
+            </>
+          );
+        }
         return (
           <>
             <MicrophoneIcon className="h-5 w-5 text-red-500 animate-pulse" />
@@ -0,0 +1,222 @@
+import React, { useRef, useEffect, useCallback, useImperativeHandle, forwardRef } from 'react';
+import { DrawingData, Stroke, StrokePoint } from '../types';
+import { drawStroke, drawStrokes, strokeHitTest } from '../services/strokes';
+
+export type DrawingTool = 'pen' | 'eraser';
+
+export interface StrokeCanvasHandle {
+  /** Current sketch size and strokes; `includeInProgress` adds the stroke still being drawn. */
+  getDrawing: (includeInProgress?: boolean) => DrawingData;
+}
+
+interface StrokeCanvasProps {
+  strokes: Stroke[];
+  tool: DrawingTool;
+  color: string;
+  lineWidth: number;
+  onCommit: (strokes: Stroke[]) => void;
+  /** Called whenever the visible ink changes, including mid-stroke. */
+  onInk?: () => void;
+  /** Called with the canvas's CSS size when it is first laid out and whenever it changes. */
+  onResize?: (size: { width: number; height: number }) => void;
+  className?: string;
+}
+
+const ERASER_RADIUS = 12;
+// Touches with a contact patch wider than this (CSS px) are treated as a resting palm.
+const PALM_CONTACT_SIZE = 40;
+
+const StrokeCanvas = forwardRef<StrokeCanvasHandle, StrokeCanvasProps>(({ strokes, tool, color, lineWidth, onCommit, onInk, onResize, className }, ref) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const contextRef = useRef<CanvasRenderingContext2D | null>(null);
+
+  // Pointer handlers read these refs so a gesture never sees a stale render.
+  const strokesRef = useRef<Stroke[]>(strokes);
+  const activePointerIdRef = useRef<number | null>(null);
+  const currentStrokeRef = useRef<Stroke | null>(null);
+  const erasingRef = useRef<Stroke[] | null>(null);
+  // Once a stylus has been used, finger input is ignored so a resting hand doesn't draw.
+  const penSeenRef = useRef(false);
+
+  const redraw = useCallback((visible: Stroke[]) => {
+    const canvas = canvasRef.current;
+    const context = contextRef.current;
+    if (!canvas || !context) return;
+    const rect = canvas.getBoundingClientRect();
+    context.clearRect(0, 0, rect.width, rect.height);
+    drawStrokes(context, visible);
+    if (currentStrokeRef.current) {
+      drawStroke(context, currentStrokeRef.current);
+    }
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    getDrawing: (includeInProgress = false) => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      const visible = erasingRef.current ?? strokesRef.current;
+      const current = currentStrokeRef.current;
+      return {
+        width: rect?.width ?? 0,
+        height: rect?.height ?? 0,
+        strokes: includeInProgress && current ? [...visible, current] : strokesRef.current,
+      };
+    },
+  }), []);
+
+  // Resize handler accounts for both layout changes and high-DPI displays,
+  // and repaints the vector strokes since resizing wipes the bitmap.
+  const handleResize = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+
+    // Only update if the size or resolution has changed to avoid unnecessary redraws.
+    if (canvas.width !== rect.width * dpr || canvas.height !== rect.height * dpr) {
+      canvas.width = rect.width * dpr;
+      canvas.height = rect.height * dpr;
+
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      // Scale the context to match the device pixel ratio, ensuring 1-to-1 mapping.
+      context.scale(dpr, dpr);
+      contextRef.current = context;
+      redraw(strokesRef.current);
+      onInk?.();
+      onResize?.({ width: rect.width, height: rect.height });
+    }
+  }, [redraw, onInk, onResize]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    handleResize(); // Set initial size correctly.
+    // The docked whiteboard resizes with the layout, not just the window.
+    const observer = new ResizeObserver(handleResize);
+    observer.observe(canvas);
+    window.addEventListener('resize', handleResize);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', handleResize);
+    };
+  }, [handleResize]);
+
+  useEffect(() => {
+    strokesRef.current = strokes;
+    redraw(strokes);
+    onInk?.();
+  }, [strokes, redraw, onInk]);
+
+  const isPalm = (e: React.PointerEvent) => {
+    if (e.pointerType === 'pen') {
+      penSeenRef.current = true;
+      return false;
+    }
+    if (e.pointerType !== 'touch') return false;
+    return penSeenRef.current || e.width > PALM_CONTACT_SIZE || e.height > PALM_CONTACT_SIZE;
+  };
+
+  const toPoints = (e: React.PointerEvent): StrokePoint[] => {
+    const canvas = canvasRef.current;
+    if (!canvas) return [];
+    const rect = canvas.getBoundingClientRect();
+    // Coalesced events recover the samples the browser batched between frames.
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    return (events.length > 0 ? events : [e.nativeEvent]).map(event => ({
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top,
+      // Mice report 0.5 while a button is down, which draws at the chosen size.
+      pressure: event.pointerType === 'pen' ? event.pressure : 0.5,
+    }));
+  };
+
+  const eraseAt = (points: StrokePoint[]) => {
+    const remaining = erasingRef.current;
+    if (!remaining) return;
+    const next = remaining.filter(stroke => !points.some(point => strokeHitTest(stroke, point, ERASER_RADIUS)));
+    if (next.length !== remaining.length) {
+      erasingRef.current = next;
+      redraw(next);
+      onInk?.();
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.isPrimary || activePointerIdRef.current !== null || isPalm(e)) return;
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    activePointerIdRef.current = e.pointerId;
+
+    const points = toPoints(e);
+    if (tool === 'eraser') {
+      erasingRef.current = strokesRef.current;
+      eraseAt(points);
+    } else {
+      currentStrokeRef.current = { color, width: lineWidth, points };
+      if (contextRef.current) drawStroke(contextRef.current, currentStrokeRef.current);
+      onInk?.();
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerIdRef.current) return;
+    const points = toPoints(e);
+    if (erasingRef.current) {
+      eraseAt(points);
+      return;
+    }
+    const stroke = currentStrokeRef.current;
+    if (!stroke || !contextRef.current) return;
+    // Only the new tail is painted here; a full redraw happens when the stroke is committed.
+    const tail = { ...stroke, points: [stroke.points[stroke.points.length - 1], ...points] };
+    stroke.points.push(...points);
+    drawStroke(contextRef.current, tail);
+    onInk?.();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerIdRef.current) return;
+    activePointerIdRef.current = null;
+
+    if (erasingRef.current) {
+      const remaining = erasingRef.current;
+      erasingRef.current = null;
+      if (remaining.length !== strokesRef.current.length) {
+        strokesRef.current = remaining;
+        onCommit(remaining);
+      }
+      return;
+    }
+    const stroke = currentStrokeRef.current;
+    currentStrokeRef.current = null;
+    if (stroke && stroke.points.length > 0) {
+      strokesRef.current = [...strokesRef.current, stroke];
+      onCommit(strokesRef.current);
+    }
+  };
+
+  const handlePointerCancel = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerIdRef.current) return;
+    // The browser took the pointer (e.g. a gesture); drop the partial stroke or erase.
+    activePointerIdRef.current = null;
+    currentStrokeRef.current = null;
+    erasingRef.current = null;
+    redraw(strokesRef.current);
+    onInk?.();
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      className={`bg-gray-900 rounded-md touch-none ${tool === 'eraser' ? 'cursor-cell' : 'cursor-crosshair'} ${className ?? ''}`}
+    />
+  );
+});
+
+export default StrokeCanvas;
@@ -0,0 +1,299 @@
+import React, { useState, useEffect, FormEvent } from 'react';
+import { Profile, SessionRecord } from '../types';
+import { listAllSessions } from '../services/sessionStore';
+import { listProfiles, setRevealLocked } from '../services/profileStore';
+import { hasSupervisorPin, setSupervisorPin, verifySupervisorPin } from '../services/supervisorPin';
+import { FLAG_LABELS, ProfileActivity, activityToCsv, buildActivityReport, formatMinutes } from '../services/activityReport';
+import { downloadFile } from '../services/sessionExport';
+import { findSkill } from '../services/skills';
+import { MIN_PIN_LENGTH, MAX_PIN_LENGTH, inputClassName, primaryButtonClassName } from './ProfileForm';
+import TranscriptView from './TranscriptView';
+import { LockIcon } from './Icons';
+
+interface SupervisorDashboardProps {
+  isOpen: boolean;
+  // Only a parent or teacher profile may choose the supervisor PIN the first time.
+  canSetPin: boolean;
+  onClose: () => void;
+  // Lets the app pick up settings changed here for the profile that is signed in.
+  onProfileUpdated?: (profile: Profile) => void;
+}
+
+type LockState = 'checking' | 'setup' | 'locked' | 'unlocked';
+
+const DailyChart: React.FC<{ daily: ProfileActivity['daily'] }> = ({ daily }) => {
+  const maxMs = Math.max(...daily.map(day => day.ms), 1);
+  return (
+    <div className="flex items-end gap-1 h-16" aria-label="Minutes per day over the last two weeks">
+      {daily.map(day => (
+        <div key={day.day} className="flex-1 h-full flex items-end" title={`${day.day}: ${formatMinutes(day.ms)}`}>
+          <div className="w-full bg-blue-500 rounded-t" style={{ height: day.ms > 0 ? `${Math.max(6, (day.ms / maxMs) * 100)}%` : '2px', opacity: day.ms > 0 ? 1 : 0.3 }} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const SupervisorDashboard: React.FC<SupervisorDashboardProps> = ({ isOpen, canSetPin, onClose, onProfileUpdated }) => {
+  const [lockState, setLockState] = useState<LockState>('checking');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [report, setReport] = useState<ProfileActivity[] | null>(null);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [expandedProfileId, setExpandedProfileId] = useState<string | null>(null);
+  const [reviewedSession, setReviewedSession] = useState<SessionRecord | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLockState('checking');
+    setPin('');
+    setConfirmPin('');
+    setError('');
+    setReport(null);
+    setReviewedSession(null);
+    hasSupervisorPin()
+      .then(exists => setLockState(exists ? 'locked' : 'setup'))
+      .catch(lockError => {
+        console.error('Failed to read the supervisor PIN:', lockError);
+        setLockState('locked');
+      });
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (lockState !== 'unlocked') return;
+    // Names come from the server when it is reachable; the activity itself is all local.
+    Promise.all([listAllSessions(), listProfiles().catch(() => [])])
+      .then(([sessions, loadedProfiles]) => {
+        setProfiles(loadedProfiles);
+        setReport(buildActivityReport(sessions, loadedProfiles));
+      })
+      .catch(loadError => {
+        console.error('Failed to load activity:', loadError);
+        alert('There was an error loading the activity report.');
+      });
+  }, [lockState]);
+
+  const handleUnlock = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      if (await verifySupervisorPin(pin)) {
+        setLockState('unlocked');
+      } else {
+        setError('Incorrect PIN. Please try again.');
+      }
+    } catch (unlockError) {
+      console.error('Failed to check the supervisor PIN:', unlockError);
+      setError('Could not check the PIN. Please try again.');
+    } finally {
+      setPin('');
+      setIsBusy(false);
+    }
+  };
+
+  const handleSetPin = async (e: FormEvent) => {
+    e.preventDefault();
+    if (pin.length < MIN_PIN_LENGTH) {
+      setError(`The PIN must be at least ${MIN_PIN_LENGTH} characters.`);
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError('The PINs do not match.');
+      setConfirmPin('');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await setSupervisorPin(pin);
+      setLockState('unlocked');
+    } catch (setupError) {
+      console.error('Failed to save the supervisor PIN:', setupError);
+      setError('Could not save the PIN. Please try again.');
+    } finally {
+      setPin('');
+      setConfirmPin('');
+      setIsBusy(false);
+    }
+  };
+
+  const handleToggleRevealLock = async (profile: Profile) => {
+    try {
+      const updated = await setRevealLocked(profile, !profile.settings.revealLocked);
+      setProfiles(prev => prev.map(other => (other.id === updated.id ? updated : other)));
+      onProfileUpdated?.(updated);
+    } catch (saveError) {
+      console.error('Failed to save profile settings:', saveError);
+      alert('There was an error saving the setting.');
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    downloadFile(`activity-log-${new Date().toISOString().slice(0, 10)}.csv`, activityToCsv(report), 'text/csv');
+  };
+
+  if (!isOpen) return null;
+
+  const renderLock = () => {
+    if (lockState === 'checking') return <p className="text-gray-400">Loading...</p>;
+    if (lockState === 'setup' && !canSetPin) {
+      return <p className="text-gray-400">No supervisor PIN has been set yet. A parent or teacher can set one from their own profile.</p>;
+    }
+    const isSetup = lockState === 'setup';
+    return (
+      <form onSubmit={isSetup ? handleSetPin : handleUnlock} className="space-y-4">
+        <p className="text-gray-400">
+          {isSetup
+            ? 'Choose a supervisor PIN. It is separate from every profile PIN and unlocks activity reports for all profiles on this device.'
+            : 'Enter the supervisor PIN to see activity for all profiles.'}
+        </p>
+        <input
+          type="password"
+          value={pin}
+          onChange={(e) => { setPin(e.target.value); setError(''); }}
+          className={`${inputClassName} text-center text-2xl tracking-widest`}
+          placeholder="••••"
+          maxLength={MAX_PIN_LENGTH}
+          aria-label="Supervisor PIN"
+          autoFocus
+        />
+        {isSetup && (
+          <input
+            type="password"
+            value={confirmPin}
+            onChange={(e) => { setConfirmPin(e.target.value); setError(''); }}
+            className={`${inputClassName} text-center text-2xl tracking-widest`}
+            placeholder="Confirm"
+            maxLength={MAX_PIN_LENGTH}
+            aria-label="Confirm supervisor PIN"
+          />
+        )}
+        {error && <p className="text-red-500">{error}</p>}
+        <button type="submit" disabled={isBusy || !pin} className={primaryButtonClassName}>
+          {isSetup ? 'Set PIN' : 'Unlock'}
+        </button>
+      </form>
+    );
+  };
+
+  const renderProfile = (profile: ProfileActivity) => {
+    const isExpanded = expandedProfileId === profile.profileId;
+    const settingsProfile = profiles.find(other => other.id === profile.profileId);
+    return (
+      <section key={profile.profileId} className="bg-gray-900 rounded-md p-4 space-y-3">
+        <div className="flex items-baseline justify-between gap-4">
+          <h3 className="text-lg font-semibold truncate">{profile.name}</h3>
+          <p className="text-sm text-gray-400 whitespace-nowrap">
+            {formatMinutes(profile.totalMs)} · {profile.sessions.length} {profile.sessions.length === 1 ? 'session' : 'sessions'} · {profile.problemsAttempted} problems
+          </p>
+        </div>
+        <DailyChart daily={profile.daily} />
+        {settingsProfile && (
+          <label className="flex items-start gap-3 text-sm">
+            <input type="checkbox" checked={settingsProfile.settings.revealLocked} onChange={() => handleToggleRevealLock(settingsProfile)} className="mt-1" />
+            <span>
+              Lock "Reveal solution"
+              <span className="block text-xs text-gray-400">The tutor keeps to hints and never gives the full answer.</span>
+            </span>
+          </label>
+        )}
+        {profile.topics.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {profile.topics.slice(0, 8).map(topic => (
+              <li key={topic.skillId} className="px-3 py-1 bg-gray-700 rounded-full text-xs">{findSkill(topic.skillId)!.name} · {topic.count}</li>
+            ))}
+          </ul>
+        )}
+        {Object.entries(profile.flagCounts).map(([flag, count]) => (
+          <p key={flag} className="text-sm text-yellow-400">⚑ {FLAG_LABELS[flag as keyof typeof FLAG_LABELS]} in {count} {count === 1 ? 'session' : 'sessions'}</p>
+        ))}
+        {profile.sessions.length > 0 && (
+          <button onClick={() => setExpandedProfileId(isExpanded ? null : profile.profileId)} className="text-sm text-blue-400 hover:text-blue-300">
+            {isExpanded ? 'Hide sessions' : 'Show sessions'}
+          </button>
+        )}
+        {isExpanded && (
+          <ul className="space-y-2">
+            {profile.sessions.map(activity => (
+              <li key={activity.session.id} className="bg-gray-800 rounded-md p-3 flex items-center gap-3">
+                <div className="flex-grow min-w-0">
+                  <p className="font-semibold truncate">{activity.session.title}</p>
+                  <p className="text-xs text-gray-400">
+                    {new Date(activity.session.startedAt).toLocaleString()} · {formatMinutes(activity.durationMs)} · {activity.studentMessages} messages · {activity.problemsAttempted} problems
+                  </p>
+                  {activity.flags.map(flag => (
+                    <p key={flag} className="text-xs text-yellow-400">⚑ {FLAG_LABELS[flag]}</p>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setReviewedSession(activity.session)}
+                  disabled={activity.session.transcript.length === 0}
+                  className="px-3 py-1 bg-gray-600 rounded-md text-sm hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Review
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    );
+  };
+
+  const renderDashboard = () => {
+    if (reviewedSession) {
+      return (
+        <div className="flex-grow flex flex-col min-h-0">
+          <div className="px-4 py-2 bg-gray-900 border-b border-gray-700 flex items-center justify-between gap-4 text-sm">
+            <span className="truncate">{reviewedSession.title}</span>
+            <button onClick={() => setReviewedSession(null)} className="px-3 py-1 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Back</button>
+          </div>
+          <TranscriptView transcript={reviewedSession.transcript} problems={reviewedSession.problems} />
+        </div>
+      );
+    }
+    return (
+      <div className="flex-grow overflow-y-auto p-4 space-y-4">
+        {!report ? (
+          <p className="text-center text-gray-400">Loading...</p>
+        ) : report.length === 0 ? (
+          <p className="text-center text-gray-400">No activity on this device yet.</p>
+        ) : report.map(renderProfile)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="supervisor-title">
+      <div className={`bg-gray-800 rounded-lg shadow-2xl w-full flex flex-col ${lockState === 'unlocked' ? 'h-full max-w-3xl max-h-[90vh]' : 'max-w-sm'}`}>
+        <header className="p-4 border-b border-gray-700">
+          <h2 id="supervisor-title" className="text-lg font-semibold text-center">Supervisor Dashboard</h2>
+        </header>
+
+        {lockState === 'unlocked' ? renderDashboard() : (
+          <div className="p-6 bg-gray-900 text-center">
+            <div className="mx-auto mb-4 bg-gray-800 rounded-full h-16 w-16 flex items-center justify-center">
+              <LockIcon className="h-8 w-8 text-blue-400" />
+            </div>
+            {renderLock()}
+          </div>
+        )}
+
+        <footer className="p-4 flex justify-end gap-4 border-t border-gray-700">
+          {lockState === 'unlocked' && (
+            <button onClick={handleExportCsv} disabled={!report} className="px-6 py-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+              Export CSV
+            </button>
+          )}
+          <button onClick={onClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">
+            {lockState === 'unlocked' ? 'Lock & Close' : 'Cancel'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default SupervisorDashboard;
@@ -0,0 +1,43 @@
+import React, { useState, FormEvent } from 'react';
+import { SendIcon } from './Icons';
+
+interface TextComposerProps {
+  disabled: boolean;
+  onSend: (text: string) => void;
+}
+
+const TextComposer: React.FC<TextComposerProps> = ({ disabled, onSend }) => {
+  const [text, setText] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const message = text.trim();
+    if (!message || disabled) return;
+    onSend(message);
+    setText('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-2xl flex items-center gap-2">
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={disabled}
+        placeholder={disabled ? 'Start a session to type a message' : 'Type a message or an equation...'}
+        className="flex-grow px-4 py-2 bg-gray-800 border-2 border-gray-700 rounded-full text-white focus:outline-none focus:border-blue-500 transition-colors disabled:opacity-50"
+        aria-label="Message to the tutor"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        className="w-10 h-10 rounded-full flex items-center justify-center bg-blue-600 hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-400 disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-label="Send message"
+      >
+        <SendIcon className="w-5 h-5 text-white" />
+      </button>
+    </form>
+  );
+};
+
+export default TextComposer;
@@ -1,12 +1,24 @@
 
 import React, { useRef, useEffect } from 'react';
-import { Speaker, TranscriptEntry } from '../types';
+import { MathCheck, QueuedProblem, Speaker, TranscriptEntry } from '../types';
+import MathText from './MathText';
+import AnnotationOverlay from './AnnotationOverlay';
+import { findSkill } from '../services/skills';
+
+const CHECK_BADGES: Record<MathCheck['verdict'], { label: string; className: string }> = {
+  verified: { label: '✓ Verified', className: 'bg-green-900 text-green-300' },
+  refuted: { label: '✗ Does not follow', className: 'bg-red-900 text-red-300' },
+  unverified: { label: '? Not verified', className: 'bg-gray-700 text-gray-300' },
+  computed: { label: '= Simplified', className: 'bg-gray-700 text-gray-300' },
+};
 
 interface TranscriptViewProps {
   transcript: TranscriptEntry[];
+  // Worksheet problems, used to label where each problem's exchanges begin.
+  problems?: QueuedProblem[];
 }
 
-const TranscriptView: React.FC<TranscriptViewProps> = ({ transcript }) => {
+const TranscriptView: React.FC<TranscriptViewProps> = ({ transcript, problems }) => {
   const endOfMessagesRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -23,22 +35,69 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ transcript }) => {
         </div>
       ) : (
         transcript.map((entry, index) => (
-          <div key={index} className={`flex items-start gap-4 ${entry.speaker === Speaker.USER ? 'justify-end' : 'justify-start'}`}>
-            {entry.speaker === Speaker.TUTOR && (
-              <div className="w-10 h-10 rounded-full bg-blue-500 flex-shrink-0 flex items-center justify-center font-bold text-white">T</div>
+          <React.Fragment key={index}>
+            {entry.problemId && entry.problemId !== transcript[index - 1]?.problemId && (
+              <div className="flex items-center gap-3 text-xs uppercase tracking-wider text-gray-400">
+                <span className="flex-grow border-t border-gray-700" />
+                {problems?.find(problem => problem.id === entry.problemId)?.label ?? 'Worksheet problem'}
+                <span className="flex-grow border-t border-gray-700" />
+              </div>
             )}
-            <div className={`max-w-xl rounded-2xl shadow-md ${entry.speaker === Speaker.USER ? 'bg-gray-700 rounded-br-none' : 'bg-gray-800 rounded-bl-none'} ${entry.image && !entry.text ? 'p-2' : 'p-4'}`}>
-              {entry.image && (
-                <img src={entry.image} alt="User-provided math problem" className="rounded-md max-w-full h-auto" />
-              )}
-              {entry.text && (
-                <p className="text-white">{entry.text}</p>
-              )}
-            </div>
-             {entry.speaker === Speaker.USER && (
-              <div className="w-10 h-10 rounded-full bg-green-500 flex-shrink-0 flex items-center justify-center font-bold text-white">U</div>
+            {entry.hint ? (
+              <div className="flex justify-end">
+                <span className={`px-3 py-1 rounded-full text-xs ${entry.hint.request === 'reveal' ? 'bg-yellow-900 text-yellow-300' : 'bg-blue-900 text-blue-300'}`}>
+                  💡 {entry.text}
+                </span>
+              </div>
+            ) : (
+              <div className={`flex items-start gap-4 ${entry.speaker === Speaker.USER ? 'justify-end' : 'justify-start'}`}>
+                {entry.speaker === Speaker.TUTOR && (
+                  <div className="w-10 h-10 rounded-full bg-blue-500 flex-shrink-0 flex items-center justify-center font-bold text-white">T</div>
+                )}
+                <div className={`max-w-xl rounded-2xl shadow-md ${entry.speaker === Speaker.USER ? 'bg-gray-700 rounded-br-none' : 'bg-gray-800 rounded-bl-none'} ${entry.image && !entry.text ? 'p-2' : 'p-4'}`}>
+                  {entry.image && (
+                    <div className="relative">
+                      <img src={entry.image} alt="User-provided math problem" className="rounded-md max-w-full h-auto block" />
+                      {entry.annotations && <AnnotationOverlay annotations={entry.annotations} />}
+                    </div>
+                  )}
+                  {entry.text && (
+                    <MathText text={entry.text} className="text-white" detectBareMath={entry.speaker === Speaker.TUTOR} />
+                  )}
+                  {entry.mathChecks && entry.mathChecks.length > 0 && (
+                    <ul className="flex flex-wrap gap-2 mt-2">
+                      {entry.mathChecks.map((check, checkIndex) => (
+                        <li
+                          key={checkIndex}
+                          className={`px-2 py-0.5 rounded-full text-xs max-w-full truncate ${CHECK_BADGES[check.verdict].className}`}
+                          title={`${check.input}\n${check.result}`}
+                        >
+                          {CHECK_BADGES[check.verdict].label} · {check.input}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {entry.skills && entry.skills.length > 0 && (
+                    <ul className="flex flex-wrap gap-2 mt-2">
+                      {entry.skills.map((attempt, skillIndex) => (
+                        <li
+                          key={skillIndex}
+                          className={`px-2 py-0.5 rounded-full text-xs ${attempt.correct ? 'bg-green-900 text-green-300' : 'bg-yellow-900 text-yellow-300'}`}
+                        >
+                          {findSkill(attempt.skillId)?.name ?? attempt.skillId}
+                          {attempt.correct ? ' ✓' : ' · keep practicing'}
+                          {attempt.hints > 0 && ` · ${attempt.hints} ${attempt.hints === 1 ? 'hint' : 'hints'}`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                 {entry.speaker === Speaker.USER && (
+                  <div className="w-10 h-10 rounded-full bg-green-500 flex-shrink-0 flex items-center justify-center font-bold text-white">U</div>
+                )}
+              </div>
             )}
-          </div>
+          </React.Fragment>
         ))
       )}
       <div ref={endOfMessagesRef} />
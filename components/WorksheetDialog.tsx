@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { QueuedProblem } from '../types';
+import { WorksheetPage, createQueuedProblem, relabelProblems } from '../services/problemQueue';
+import { prepareImageForSending } from '../services/imageProcessing';
+import ImageCropper from './ImageCropper';
+
+interface WorksheetDialogProps {
+  isOpen: boolean;
+  pages: WorksheetPage[];
+  onClose: () => void;
+  onStart: (problems: QueuedProblem[]) => void;
+}
+
+const WorksheetDialog: React.FC<WorksheetDialogProps> = ({ isOpen, pages, onClose, onStart }) => {
+  const [selectedPage, setSelectedPage] = useState(0);
+  const [problems, setProblems] = useState<QueuedProblem[]>([]);
+  const [isCropperOpen, setIsCropperOpen] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedPage(0);
+      setProblems([]);
+    }
+  }, [isOpen, pages]);
+
+  const page = pages[selectedPage];
+
+  const addProblem = (image: string) => {
+    setProblems(prev => [...prev, createQueuedProblem(image, page.source, prev.length + 1)]);
+  };
+
+  const handleAddWholePage = async () => {
+    try {
+      addProblem(await prepareImageForSending(page.image));
+    } catch (error) {
+      console.error('Failed to prepare page:', error);
+      alert('There was an error adding this page.');
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    setProblems(prev => relabelProblems(prev.filter(problem => problem.id !== id)));
+  };
+
+  const handleStart = () => {
+    onStart(problems);
+    onClose();
+  };
+
+  if (!isOpen || !page) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="worksheet-title">
+      <div className="bg-gray-800 rounded-lg shadow-2xl w-full h-full max-w-5xl max-h-[90vh] flex flex-col">
+        <header className="p-4 border-b border-gray-700">
+          <h2 id="worksheet-title" className="text-lg font-semibold text-center">Split Your Worksheet into Problems</h2>
+          <p className="text-sm text-gray-400 text-center mt-1">Crop each problem out of the pages, then work through them one at a time.</p>
+        </header>
+
+        <div className="flex-grow flex min-h-0">
+          {pages.length > 1 && (
+            <nav className="w-28 flex-shrink-0 overflow-y-auto border-r border-gray-700 p-2 space-y-2" aria-label="Pages">
+              {pages.map((p, i) => (
+                <button
+                  key={i}
+                  onClick={() => setSelectedPage(i)}
+                  className={`block w-full rounded-md overflow-hidden border-2 ${i === selectedPage ? 'border-blue-500' : 'border-transparent hover:border-gray-500'}`}
+                  aria-label={`Show ${p.source}`}
+                  aria-current={i === selectedPage}
+                >
+                  <img src={p.image} alt="" className="w-full h-auto" />
+                  <span className="block text-xs text-gray-300 py-1">{i + 1}</span>
+                </button>
+              ))}
+            </nav>
+          )}
+
+          <div className="flex-grow flex flex-col min-w-0">
+            <div className="flex-grow p-4 flex items-center justify-center bg-gray-900 overflow-hidden">
+              <img src={page.image} alt={page.source} className="max-w-full max-h-full object-contain" />
+            </div>
+            <div className="p-3 flex flex-wrap items-center justify-center gap-3 border-t border-gray-700 text-sm">
+              <span className="text-gray-400 truncate">{page.source}</span>
+              <button onClick={() => setIsCropperOpen(true)} className="px-4 py-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors">
+                Crop a problem
+              </button>
+              <button onClick={handleAddWholePage} className="px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">
+                Use whole page
+              </button>
+            </div>
+          </div>
+
+          <aside className="w-48 flex-shrink-0 overflow-y-auto border-l border-gray-700 p-3" aria-label="Problem queue">
+            <h3 className="text-sm font-semibold uppercase tracking-wider text-gray-300 mb-2">Queue ({problems.length})</h3>
+            {problems.length === 0 ? (
+              <p className="text-xs text-gray-500">No problems yet.</p>
+            ) : (
+              <ol className="space-y-2">
+                {problems.map(problem => (
+                  <li key={problem.id} className="bg-gray-900 rounded-md p-1">
+                    <img src={problem.image} alt={problem.label} className="w-full h-auto rounded" />
+                    <div className="flex items-center justify-between text-xs px-1 pt-1">
+                      <span>{problem.label}</span>
+                      <button onClick={() => handleRemove(problem.id)} className="text-gray-400 hover:text-red-400" aria-label={`Remove ${problem.label}`}>Remove</button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </aside>
+        </div>
+
+        <footer className="p-4 flex justify-end gap-4 border-t border-gray-700">
+          <button onClick={onClose} className="px-6 py-2 bg-gray-600 rounded-md hover:bg-gray-700 transition-colors">Cancel</button>
+          <button
+            onClick={handleStart}
+            disabled={problems.length === 0}
+            className="px-6 py-2 bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Start problem 1
+          </button>
+        </footer>
+      </div>
+      <ImageCropper
+        isOpen={isCropperOpen}
+        src={page.image}
+        onClose={() => setIsCropperOpen(false)}
+        onCrop={addProblem}
+        confirmLabel="Add problem"
+      />
+    </div>
+  );
+};
+
+export default WorksheetDialog;
@@ -0,0 +1,65 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { Profile, StudentSettings } from '../types';
+import { updateProfileSettings } from '../services/profileStore';
+
+interface ProfileContextValue {
+  profile: Profile | null;
+  // Bearer token from the server proving this profile's PIN was checked there.
+  authToken: string | null;
+  // Profile to preselect on the PIN screen after switching away from the current one.
+  requestedProfileId: string | null;
+  signIn: (profile: Profile, authToken: string) => void;
+  switchProfile: (profileId?: string) => void;
+  updateSettings: (settings: Partial<StudentSettings>) => Promise<void>;
+  // Picks up settings a supervisor saved for the signed-in profile.
+  refreshProfile: (profile: Profile) => void;
+}
+
+const ProfileContext = createContext<ProfileContextValue | null>(null);
+
+export const ProfileProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [authToken, setAuthToken] = useState<string | null>(null);
+  const [requestedProfileId, setRequestedProfileId] = useState<string | null>(null);
+
+  const signIn = useCallback((next: Profile, token: string) => {
+    setProfile(next);
+    setAuthToken(token);
+    setRequestedProfileId(null);
+  }, []);
+
+  const switchProfile = useCallback((profileId?: string) => {
+    setProfile(null);
+    setAuthToken(null);
+    setRequestedProfileId(profileId ?? null);
+  }, []);
+
+  const refreshProfile = useCallback((next: Profile) => {
+    setProfile(prev => (prev?.id === next.id ? { ...prev, settings: next.settings } : prev));
+  }, []);
+
+  const updateSettings = useCallback(async (settings: Partial<StudentSettings>) => {
+    if (!profile) return;
+    setProfile({ ...profile, settings: { ...profile.settings, ...settings } });
+    try {
+      refreshProfile(await updateProfileSettings(profile, settings));
+    } catch (error) {
+      console.error('Failed to save profile settings:', error);
+    }
+  }, [profile, refreshProfile]);
+
+  const value = useMemo(
+    () => ({ profile, authToken, requestedProfileId, signIn, switchProfile, updateSettings, refreshProfile }),
+    [profile, authToken, requestedProfileId, signIn, switchProfile, updateSettings, refreshProfile],
+  );
+
+  return <ProfileContext.Provider value={value}>{children}</ProfileContext.Provider>;
+};
+
+export function useProfile(): ProfileContextValue {
+  const context = useContext(ProfileContext);
+  if (!context) {
+    throw new Error('useProfile must be used within a ProfileProvider');
+  }
+  return context;
+}
@@ -0,0 +1,42 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ProfileRole } from '../types';
+
+const TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+export interface AuthClaims {
+  profileId: string;
+  role: ProfileRole;
+  exp: number;
+}
+
+/**
+ * Stateless bearer tokens for the browser: a base64url JSON payload and its HMAC. They
+ * prove a PIN was checked by this server and are never sent to Gemini.
+ */
+export class AuthTokenSigner {
+  constructor(private readonly secret: string) {}
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  issue(profileId: string, role: ProfileRole): string {
+    const claims: AuthClaims = { profileId, role, exp: Date.now() + TOKEN_TTL_MS };
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  verify(token: string): AuthClaims | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as AuthClaims;
+      return claims.exp > Date.now() ? claims : null;
+    } catch {
+      return null;
+    }
+  }
+}
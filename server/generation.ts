@@ -0,0 +1,161 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { GradeBand, HintHotspot, SessionReview, SessionSummary, TranscriptTurn } from '../types';
+import { GRADE_BANDS } from '../services/tutorPersona';
+
+// Non-live requests use the regular text model; the Live model only speaks the Live protocol.
+const TEXT_MODEL = 'gemini-2.5-flash';
+const MAX_TURNS = 400;
+const MAX_TURN_LENGTH = 4000;
+const MIN_PRACTICE_PROBLEMS = 3;
+const MAX_PRACTICE_PROBLEMS = 5;
+const MAX_RECOGNIZED_LENGTH = 500;
+
+export class InvalidInputError extends Error {}
+
+/** Validates a transcript posted by the browser, trimming it to a bounded size. */
+export function readTranscript(value: unknown): TranscriptTurn[] {
+  if (!Array.isArray(value)) throw new InvalidInputError('transcript must be a list');
+  const turns = value.slice(-MAX_TURNS).flatMap((item): TranscriptTurn[] => {
+    if (!item || typeof item !== 'object') return [];
+    const { speaker, text } = item as Record<string, unknown>;
+    if ((speaker !== 'student' && speaker !== 'tutor') || typeof text !== 'string' || !text.trim()) return [];
+    return [{ speaker, text: text.trim().slice(0, MAX_TURN_LENGTH) }];
+  });
+  if (turns.length === 0) throw new InvalidInputError('transcript is empty');
+  return turns;
+}
+
+/** Validates a base64-encoded PNG posted by the browser (without the data URL prefix). */
+export function readPngImage(value: unknown): string {
+  if (typeof value !== 'string' || !value || !/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+    throw new InvalidInputError('image must be base64-encoded PNG data');
+  }
+  return value;
+}
+
+/** Falls back to high school when the browser sends no or an unknown grade band. */
+export function readGradeBand(value: unknown): GradeBand {
+  return GRADE_BANDS.find(band => band.value === value)?.value ?? 'high';
+}
+
+function formatTranscript(turns: TranscriptTurn[]): string {
+  return turns.map(turn => `${turn.speaker === 'student' ? 'Student' : 'Tutor'}: ${turn.text}`).join('\n');
+}
+
+const readStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+export async function summarizeSession(ai: GoogleGenAI, turns: TranscriptTurn[]): Promise<SessionSummary> {
+  const response = await ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: `Here is the transcript of a math tutoring session between a student and an AI tutor.\n\n${formatTranscript(turns)}`,
+    config: {
+      systemInstruction: 'You write short study notes for a student and their parent or teacher. Summarize what the session covered: a two or three sentence overview, the key concepts practiced, and the specific mistakes or misconceptions the student showed (an empty list if there were none). Write math in LaTeX between $ delimiters. Do not invent work that is not in the transcript.',
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          overview: { type: Type.STRING },
+          keyConcepts: { type: Type.ARRAY, items: { type: Type.STRING } },
+          mistakes: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['overview', 'keyConcepts', 'mistakes'],
+      },
+    },
+  });
+  const parsed = JSON.parse(response.text ?? '{}');
+  return {
+    overview: typeof parsed.overview === 'string' ? parsed.overview : '',
+    keyConcepts: readStringList(parsed.keyConcepts),
+    mistakes: readStringList(parsed.mistakes),
+  };
+}
+
+export async function reviewSession(ai: GoogleGenAI, turns: TranscriptTurn[], gradeBand: GradeBand): Promise<SessionReview> {
+  const grade = GRADE_BANDS.find(band => band.value === gradeBand)!;
+  const response = await ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: `Here is the transcript of a math tutoring session between a ${grade.label.toLowerCase()} student and an AI tutor.\n\n${formatTranscript(turns)}`,
+    config: {
+      systemInstruction: [
+        'You review a finished tutoring session for the student.',
+        'List the math topics the session covered as short names.',
+        'List the places where the student needed the most help, most hints first: name the topic, count the hints or corrections the tutor gave there, and say in one sentence what the student found hard. Use an empty list if the student needed no help.',
+        `Then write ${MIN_PRACTICE_PROBLEMS} to ${MAX_PRACTICE_PROBLEMS} new practice problems that exercise the same skills at the same difficulty as the problems in the session, leaning towards the places the student found hard. Each problem must be self-contained and solvable without a picture. Do not include answers or hints.`,
+        'Write math in LaTeX between $ delimiters. Do not invent work that is not in the transcript.',
+      ].join(' '),
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          topics: { type: Type.ARRAY, items: { type: Type.STRING } },
+          hintHotspots: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                topic: { type: Type.STRING },
+                hints: { type: Type.INTEGER },
+                detail: { type: Type.STRING },
+              },
+              required: ['topic', 'hints', 'detail'],
+            },
+          },
+          practiceProblems: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            minItems: String(MIN_PRACTICE_PROBLEMS),
+            maxItems: String(MAX_PRACTICE_PROBLEMS),
+          },
+        },
+        required: ['topics', 'hintHotspots', 'practiceProblems'],
+      },
+    },
+  });
+  const parsed = JSON.parse(response.text ?? '{}');
+  const hintHotspots = Array.isArray(parsed.hintHotspots)
+    ? parsed.hintHotspots.flatMap((item: Record<string, unknown>): HintHotspot[] =>
+        item && typeof item.topic === 'string' && item.topic.trim()
+          ? [{ topic: item.topic, hints: Math.max(0, Math.round(Number(item.hints) || 0)), detail: typeof item.detail === 'string' ? item.detail : '' }]
+          : [])
+    : [];
+  return {
+    topics: readStringList(parsed.topics),
+    hintHotspots: hintHotspots.sort((a: HintHotspot, b: HintHotspot) => b.hints - a.hints),
+    practiceProblems: readStringList(parsed.practiceProblems).slice(0, MAX_PRACTICE_PROBLEMS),
+  };
+}
+
+/** Reads handwritten math off a DrawingPad sketch. Returns an empty string when nothing legible is written. */
+export async function recognizeHandwriting(ai: GoogleGenAI, pngBase64: string): Promise<string> {
+  const response = await ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: [{
+      role: 'user',
+      parts: [
+        { inlineData: { data: pngBase64, mimeType: 'image/png' } },
+        { text: 'Transcribe the handwritten math in this drawing.' },
+      ],
+    }],
+    config: {
+      systemInstruction: [
+        'You transcribe a student\'s handwritten math into LaTeX, exactly as written.',
+        'Keep their mistakes: do not correct, simplify or solve anything.',
+        'Separate lines of work with \\\\ and leave out $ delimiters.',
+        'If the drawing has no legible math (for example it is only a sketch or a diagram), return an empty string.',
+      ].join(' '),
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          latex: { type: Type.STRING },
+        },
+        required: ['latex'],
+      },
+    },
+  });
+  const parsed = JSON.parse(response.text ?? '{}');
+  if (typeof parsed.latex !== 'string') return '';
+  // Stray newlines would split the expression when it is shown between $$ delimiters.
+  return parsed.latex.trim().replace(/\s*\n+\s*/g, ' \\\\ ').slice(0, MAX_RECOGNIZED_LENGTH);
+}
@@ -0,0 +1,211 @@
+import http from 'http';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { GoogleGenAI, Modality } from '@google/genai';
+import { LIVE_MODEL, ProfileRole } from '../types';
+import { ProfileRegistry } from './profileRegistry';
+import { AuthTokenSigner, AuthClaims } from './authTokens';
+import { InvalidInputError, readGradeBand, readPngImage, readTranscript, recognizeHandwriting, reviewSession, summarizeSession } from './generation';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // The key may come from the real environment instead.
+}
+
+const PORT = Number(process.env.PORT ?? 3001);
+const DIST_DIR = path.resolve('dist');
+const MAX_BODY_BYTES = 64 * 1024;
+// Transcripts are text only, but a long session still runs well past the default limit.
+const MAX_TRANSCRIPT_BODY_BYTES = 1024 * 1024;
+// A full-screen drawing pad at 2x resolution, base64-encoded.
+const MAX_IMAGE_BODY_BYTES = 8 * 1024 * 1024;
+const ROLES: ProfileRole[] = ['student', 'parent', 'teacher'];
+const MIN_PIN_LENGTH = 4;
+const MAX_PIN_LENGTH = 8;
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+const profiles = new ProfileRegistry(path.resolve(process.env.PROFILES_FILE ?? 'data/profiles.json'));
+// Without a configured secret, sign-ins simply don't survive a server restart.
+const signer = new AuthTokenSigner(process.env.SERVER_SECRET ?? randomBytes(32).toString('hex'));
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: http.IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    if (typeof parsed !== 'object' || parsed === null) throw new Error();
+    return parsed;
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+// A signed token outlives its profile, so the profile must also still be registered.
+async function authenticate(req: http.IncomingMessage): Promise<AuthClaims> {
+  const header = req.headers.authorization ?? '';
+  const claims = header.startsWith('Bearer ') ? signer.verify(header.slice(7)) : null;
+  if (!claims) throw new HttpError(401, 'Sign in required');
+  if (!(await profiles.get(claims.profileId))) throw new HttpError(401, 'Profile no longer exists');
+  return claims;
+}
+
+function readPin(value: unknown): string {
+  if (typeof value !== 'string' || value.length < MIN_PIN_LENGTH || value.length > MAX_PIN_LENGTH) {
+    throw new HttpError(400, `PIN must be ${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} characters`);
+  }
+  return value;
+}
+
+async function handleCreateProfile(req: http.IncomingMessage) {
+  const existing = await profiles.list();
+  // The very first profile bootstraps the device; after that only a parent or teacher may add one.
+  if (existing.length > 0) {
+    const claims = await authenticate(req);
+    if (claims.role === 'student') throw new HttpError(403, 'Only a parent or teacher can add profiles');
+  }
+  const body = await readJson(req);
+  const name = typeof body.name === 'string' ? body.name.trim().slice(0, 40) : '';
+  if (!name) throw new HttpError(400, 'Name is required');
+  const role = body.role as ProfileRole;
+  if (!ROLES.includes(role)) throw new HttpError(400, 'Unknown role');
+  const profile = await profiles.create(name, role, readPin(body.pin));
+  return existing.length === 0 ? { profile, token: signer.issue(profile.id, profile.role) } : { profile };
+}
+
+async function handleSignIn(req: http.IncomingMessage) {
+  const body = await readJson(req);
+  const profile = typeof body.profileId === 'string' && typeof body.pin === 'string'
+    ? await profiles.verify(body.profileId, body.pin)
+    : null;
+  if (!profile) throw new HttpError(401, 'Incorrect PIN');
+  return { profile, token: signer.issue(profile.id, profile.role) };
+}
+
+// Mints a single-use ephemeral token the browser can open one Live connection with.
+async function handleLiveToken(req: http.IncomingMessage) {
+  await authenticate(req);
+  const now = Date.now();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: new Date(now + 30 * 60 * 1000).toISOString(),
+      newSessionExpireTime: new Date(now + 60 * 1000).toISOString(),
+      // Pins the token to the tutor's model and audio replies. The empty list locks only the
+      // fields set here, leaving the per-session instructions and tools to the browser.
+      liveConnectConstraints: {
+        model: LIVE_MODEL,
+        config: { responseModalities: [Modality.AUDIO] },
+      },
+      lockAdditionalFields: [],
+    },
+  });
+  return { token: token.name };
+}
+
+async function handleSessionSummary(req: http.IncomingMessage) {
+  await authenticate(req);
+  const body = await readJson(req, MAX_TRANSCRIPT_BODY_BYTES);
+  return { summary: await summarizeSession(ai, readTranscript(body.transcript)) };
+}
+
+async function handleSessionReview(req: http.IncomingMessage) {
+  await authenticate(req);
+  const body = await readJson(req, MAX_TRANSCRIPT_BODY_BYTES);
+  return { review: await reviewSession(ai, readTranscript(body.transcript), readGradeBand(body.gradeBand)) };
+}
+
+async function handleRecognizeHandwriting(req: http.IncomingMessage) {
+  await authenticate(req);
+  const body = await readJson(req, MAX_IMAGE_BODY_BYTES);
+  return { latex: await recognizeHandwriting(ai, readPngImage(body.image)) };
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  // The pdf.js worker is emitted as .mjs, and browsers only start module workers with a JavaScript type.
+  '.mjs': 'text/javascript',
+  '.css': 'text/css',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.json': 'application/json',
+};
+
+// Serves the `vite build` output so a single process can host the app in production.
+async function serveStatic(pathname: string, res: http.ServerResponse) {
+  const filePath = path.join(DIST_DIR, path.normalize(pathname).replace(/^(\.\.[/\\])+/, ''));
+  const target = filePath.startsWith(DIST_DIR) && (await fs.stat(filePath).catch(() => null))?.isFile()
+    ? filePath
+    : path.join(DIST_DIR, 'index.html');
+  try {
+    const data = await fs.readFile(target);
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(target)] ?? 'application/octet-stream' });
+    res.end(data);
+  } catch {
+    res.writeHead(404).end('Not found. Run `npm run build` first, or use `npm run dev` for development.');
+  }
+}
+
+const server = http.createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const route = `${req.method} ${pathname}`;
+  try {
+    switch (route) {
+      case 'GET /api/profiles':
+        return sendJson(res, 200, { profiles: await profiles.list() });
+      case 'POST /api/profiles':
+        return sendJson(res, 201, await handleCreateProfile(req));
+      case 'POST /api/session':
+        return sendJson(res, 200, await handleSignIn(req));
+      case 'POST /api/live-token':
+        return sendJson(res, 200, await handleLiveToken(req));
+      case 'POST /api/session-summary':
+        return sendJson(res, 200, await handleSessionSummary(req));
+      case 'POST /api/session-review':
+        return sendJson(res, 200, await handleSessionReview(req));
+      case 'POST /api/recognize-handwriting':
+        return sendJson(res, 200, await handleRecognizeHandwriting(req));
+      default:
+        if (pathname.startsWith('/api/')) throw new HttpError(404, 'Not found');
+        if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed');
+        return serveStatic(pathname, res);
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return sendJson(res, error.status, { error: error.message });
+    }
+    if (error instanceof InvalidInputError) {
+      return sendJson(res, 400, { error: error.message });
+    }
+    console.error(`${route} failed:`, error);
+    return sendJson(res, 500, { error: 'Internal server error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Lava Math Tutor server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pbkdf2, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { ProfileRole, PublicProfile } from '../types';
+
+const pbkdf2Async = promisify(pbkdf2);
+
+const PIN_HASH_ITERATIONS = 100000;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 60 * 1000;
+
+interface StoredProfile extends PublicProfile {
+  // PBKDF2-SHA256 hash of the PIN, hex encoded, with its per-profile salt.
+  pinHash: string;
+  pinSalt: string;
+}
+
+const toPublic = ({ id, name, role, createdAt }: StoredProfile): PublicProfile => ({ id, name, role, createdAt });
+
+async function hashPin(pin: string, saltHex: string): Promise<Buffer> {
+  return pbkdf2Async(pin, Buffer.from(saltHex, 'hex'), PIN_HASH_ITERATIONS, 32, 'sha256');
+}
+
+/**
+ * Profiles and their PIN hashes, persisted as a JSON file next to the server. The browser
+ * only ever sees `PublicProfile`s; PIN checks happen here.
+ */
+export class ProfileRegistry {
+  private profiles: StoredProfile[] | null = null;
+  private failedAttempts = new Map<string, { count: number; lockedUntil: number }>();
+
+  constructor(private readonly filePath: string) {}
+
+  private async load(): Promise<StoredProfile[]> {
+    if (this.profiles) return this.profiles;
+    try {
+      this.profiles = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as StoredProfile[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.profiles = [];
+    }
+    return this.profiles;
+  }
+
+  private async persist(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(this.profiles, null, 2), { mode: 0o600 });
+  }
+
+  async list(): Promise<PublicProfile[]> {
+    return (await this.load()).map(toPublic);
+  }
+
+  async get(id: string): Promise<PublicProfile | undefined> {
+    const profile = (await this.load()).find(p => p.id === id);
+    return profile && toPublic(profile);
+  }
+
+  async create(name: string, role: ProfileRole, pin: string): Promise<PublicProfile> {
+    const profiles = await this.load();
+    const pinSalt = randomBytes(16).toString('hex');
+    const profile: StoredProfile = {
+      id: randomUUID(),
+      name,
+      role,
+      createdAt: Date.now(),
+      pinHash: (await hashPin(pin, pinSalt)).toString('hex'),
+      pinSalt,
+    };
+    profiles.push(profile);
+    await this.persist();
+    return toPublic(profile);
+  }
+
+  /** Returns the profile when the PIN matches. Repeated failures lock the profile briefly. */
+  async verify(id: string, pin: string): Promise<PublicProfile | null> {
+    const profile = (await this.load()).find(p => p.id === id);
+    if (!profile) return null;
+
+    const attempts = this.failedAttempts.get(id);
+    if (attempts && attempts.lockedUntil > Date.now()) return null;
+
+    const expected = Buffer.from(profile.pinHash, 'hex');
+    const actual = await hashPin(pin, profile.pinSalt);
+    if (expected.length === actual.length && timingSafeEqual(expected, actual)) {
+      this.failedAttempts.delete(id);
+      return toPublic(profile);
+    }
+
+    const count = (attempts?.count ?? 0) + 1;
+    this.failedAttempts.set(id, {
+      count: count >= MAX_FAILED_ATTEMPTS ? 0 : count,
+      lockedUntil: count >= MAX_FAILED_ATTEMPTS ? Date.now() + LOCKOUT_MS : 0,
+    });
+    return null;
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecord } from '../types';
+import { activityToCsv, buildActivityReport } from './activityReport';
+
+const MINUTE = 60 * 1000;
+const at = (day: number, hour: number) => new Date(2026, 2, day, hour).getTime();
+
+const session = (overrides: Partial<SessionRecord>): SessionRecord => ({
+  id: 's1',
+  profileId: 'p1',
+  title: 'Fractions',
+  startedAt: at(10, 16),
+  endedAt: at(10, 16) + 20 * MINUTE,
+  transcript: [],
+  ...overrides,
+});
+
+describe('buildActivityReport', () => {
+  it('credits each sitting of a resumed session to its own day, without the gap', () => {
+    const resumed = session({
+      endedAt: at(12, 9) + 15 * MINUTE,
+      sittings: [{ start: at(10, 16), end: at(10, 16) + 20 * MINUTE }, { start: at(12, 9), end: at(12, 9) + 15 * MINUTE }],
+    });
+    const [profile] = buildActivityReport([resumed], [], at(12, 20));
+
+    expect(profile.totalMs).toBe(35 * MINUTE);
+    const daily = Object.fromEntries(profile.daily.map(day => [day.day, day.ms]));
+    expect(daily['2026-03-10']).toBe(20 * MINUTE);
+    expect(daily['2026-03-11']).toBe(0);
+    expect(daily['2026-03-12']).toBe(15 * MINUTE);
+  });
+});
+
+describe('activityToCsv', () => {
+  const titledCsv = (title: string) => activityToCsv(buildActivityReport([session({ title })], [], at(10, 20))).split('\r\n')[1];
+
+  it.each(['=HYPERLINK("x")', '+1', '-2+3', '@SUM(A1)'])('neutralises a title that starts a formula: %s', (title) => {
+    expect(titledCsv(title)).toContain(`'${title.replace(/"/g, '""')}`);
+  });
+
+  it('quotes values containing a carriage return', () => {
+    expect(titledCsv('line one\rline two')).toContain('"line one\rline two"');
+  });
+});
@@ -0,0 +1,141 @@
+import { PublicProfile, SessionRecord, Speaker } from '../types';
+import { findSkill } from './skills';
+import { sessionActiveMs, sessionSittings } from './sessionStore';
+
+export type ActivityFlag = 'answer-seeking' | 'repeated-mistakes';
+
+export const FLAG_LABELS: Record<ActivityFlag, string> = {
+  'answer-seeking': 'Asked the tutor for the answer repeatedly',
+  'repeated-mistakes': 'Got the same skill wrong again and again',
+};
+
+// Student messages that ask to skip the work, e.g. "just tell me the answer".
+const ANSWER_REQUEST = /\b(just |can you |please )?(tell|give|show) me the (answer|solution)\b|\bwhat(?:'s| is) the (answer|solution)\b|\bjust (tell|give) me\b/i;
+const ANSWER_REQUESTS_TO_FLAG = 3;
+const MISTAKES_TO_FLAG = 3;
+export const REPORT_DAYS = 14;
+
+export interface SessionActivity {
+  session: SessionRecord;
+  durationMs: number;
+  studentMessages: number;
+  problemsAttempted: number;
+  answerRequests: number;
+  skillIds: string[];
+  flags: ActivityFlag[];
+}
+
+export interface ProfileActivity {
+  profileId: string;
+  name: string;
+  sessions: SessionActivity[];
+  totalMs: number;
+  problemsAttempted: number;
+  // Most practiced first.
+  topics: { skillId: string; count: number }[];
+  flagCounts: Partial<Record<ActivityFlag, number>>;
+  // One entry per day for the last REPORT_DAYS days, oldest first.
+  daily: { day: string; ms: number }[];
+}
+
+
+const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export function analyzeSession(session: SessionRecord): SessionActivity {
+  const studentEntries = session.transcript.filter(entry => entry.speaker === Speaker.USER);
+  const attempts = session.transcript.flatMap(entry => entry.skills ?? []);
+  const worksheetProblems = (session.problems ?? []).filter(problem => problem.status !== 'pending').length;
+  const sharedProblems = studentEntries.filter(entry => entry.image && !entry.problemId).length;
+  // Pressing "reveal solution" on the hint ladder counts the same as asking in words.
+  const answerRequests = studentEntries.filter(entry => entry.hint?.request === 'reveal' || ANSWER_REQUEST.test(entry.text)).length;
+
+  const mistakesBySkill = new Map<string, number>();
+  attempts.filter(attempt => !attempt.correct).forEach(attempt => {
+    mistakesBySkill.set(attempt.skillId, (mistakesBySkill.get(attempt.skillId) ?? 0) + 1);
+  });
+
+  const flags: ActivityFlag[] = [];
+  if (answerRequests >= ANSWER_REQUESTS_TO_FLAG) flags.push('answer-seeking');
+  if ([...mistakesBySkill.values()].some(count => count >= MISTAKES_TO_FLAG)) flags.push('repeated-mistakes');
+
+  return {
+    session,
+    // Sittings that never ended cleanly (closed tab, crash) have no end time and count as zero.
+    durationMs: sessionActiveMs(session),
+    studentMessages: studentEntries.length,
+    problemsAttempted: worksheetProblems + sharedProblems,
+    answerRequests,
+    skillIds: [...new Set(attempts.map(attempt => attempt.skillId))],
+    flags,
+  };
+}
+
+/** Groups every stored session by profile. Sessions of profiles the server no longer knows are kept. */
+export function buildActivityReport(sessions: SessionRecord[], profiles: PublicProfile[], now = Date.now()): ProfileActivity[] {
+  const days = Array.from({ length: REPORT_DAYS }, (_, i) => dayKey(now - (REPORT_DAYS - 1 - i) * 24 * 60 * 60 * 1000));
+  const profileIds = [...new Set([...profiles.map(profile => profile.id), ...sessions.map(session => session.profileId)])];
+
+  return profileIds.map(profileId => {
+    const activities = sessions.filter(session => session.profileId === profileId).map(analyzeSession);
+    const topicCounts = new Map<string, number>();
+    const flagCounts: Partial<Record<ActivityFlag, number>> = {};
+    const dailyMs = new Map<string, number>();
+    activities.forEach(activity => {
+      activity.session.transcript.flatMap(entry => entry.skills ?? []).forEach(attempt => {
+        topicCounts.set(attempt.skillId, (topicCounts.get(attempt.skillId) ?? 0) + 1);
+      });
+      activity.flags.forEach(flag => { flagCounts[flag] = (flagCounts[flag] ?? 0) + 1; });
+      // A resumed session is credited to each day it was actually worked on.
+      sessionSittings(activity.session).forEach(sitting => {
+        const day = dayKey(sitting.start);
+        dailyMs.set(day, (dailyMs.get(day) ?? 0) + Math.max(0, sitting.end - sitting.start));
+      });
+    });
+
+    return {
+      profileId,
+      name: profiles.find(profile => profile.id === profileId)?.name ?? 'Removed profile',
+      sessions: activities,
+      totalMs: activities.reduce((sum, activity) => sum + activity.durationMs, 0),
+      problemsAttempted: activities.reduce((sum, activity) => sum + activity.problemsAttempted, 0),
+      topics: [...topicCounts.entries()]
+        .filter(([skillId]) => findSkill(skillId))
+        .map(([skillId, count]) => ({ skillId, count }))
+        .sort((a, b) => b.count - a.count),
+      flagCounts,
+      daily: days.map(day => ({ day, ms: dailyMs.get(day) ?? 0 })),
+    };
+  });
+}
+
+export const formatMinutes = (ms: number) => `${Math.round(ms / 60000)} min`;
+
+// Session titles are student-written, so text a spreadsheet would run as a formula gets a leading quote.
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** The activity log as CSV, one row per session. */
+export function activityToCsv(report: ProfileActivity[]): string {
+  const header = ['Profile', 'Date', 'Start time', 'Minutes', 'Session', 'Student messages', 'Problems attempted', 'Answer requests', 'Skills', 'Flags'];
+  const rows = report.flatMap(profile => profile.sessions.map(activity => {
+    const started = new Date(activity.session.startedAt);
+    return [
+      profile.name,
+      dayKey(activity.session.startedAt),
+      started.toLocaleTimeString(),
+      Math.round(activity.durationMs / 60000),
+      activity.session.title,
+      activity.studentMessages,
+      activity.problemsAttempted,
+      activity.answerRequests,
+      activity.skillIds.map(id => findSkill(id)?.name ?? id).join('; '),
+      activity.flags.map(flag => FLAG_LABELS[flag]).join('; '),
+    ];
+  }));
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
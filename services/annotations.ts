@@ -0,0 +1,126 @@
+import { FunctionCall, FunctionDeclaration, Type } from '@google/genai';
+import { Annotation, AnnotationBox, AnnotationPoint } from '../types';
+
+export type AnnotationTarget = 'image' | 'whiteboard';
+
+const ANNOTATION_KINDS: Annotation['kind'][] = ['circle', 'underline', 'arrow', 'label'];
+const TARGETS: AnnotationTarget[] = ['image', 'whiteboard'];
+const MAX_ANNOTATIONS = 12;
+const MAX_LABEL_LENGTH = 40;
+
+export const ANNOTATION_INSTRUCTION = `You can draw on the student's work with annotate_work to point at the exact spot you are talking about: circle or underline a region, draw an arrow, or place a short text label (a few words, never the answer). Coordinates are normalized to 0-1000 in [y, x] order, with boxes as [ymin, xmin, ymax, xmax], the same convention you use for object detection. Use target "image" for the most recent picture or drawing the student sent, or "whiteboard" for the live whiteboard if they are using one. Each call replaces the previous marks on that target; call clear_annotations once the student has fixed the issue. Do not read the tool calls aloud.`;
+
+export const ANNOTATION_FUNCTIONS: FunctionDeclaration[] = [
+  {
+    name: 'annotate_work',
+    description: "Draw circles, underlines, arrows and short labels on the student's work. Replaces earlier annotations on the same target.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        target: { type: Type.STRING, enum: TARGETS, description: 'image (the latest picture or drawing the student sent) or whiteboard.' },
+        annotations: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              kind: { type: Type.STRING, enum: ANNOTATION_KINDS },
+              box: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: 'For circle and underline: [ymin, xmin, ymax, xmax], 0-1000.' },
+              from: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: 'For arrow: the tail point [y, x], 0-1000.' },
+              to: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: 'For arrow: the point the arrow head touches [y, x], 0-1000.' },
+              at: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: 'For label: where the text starts [y, x], 0-1000.' },
+              text: { type: Type.STRING, description: 'Short text shown next to the mark. Required for label.' },
+            },
+            required: ['kind'],
+          },
+        },
+      },
+      required: ['target', 'annotations'],
+    },
+  },
+  {
+    name: 'clear_annotations',
+    description: 'Remove all annotations from a target.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        target: { type: Type.STRING, enum: TARGETS },
+      },
+      required: ['target'],
+    },
+  },
+];
+
+export const isAnnotationCall = (call: FunctionCall) =>
+  ANNOTATION_FUNCTIONS.some(declaration => declaration.name === call.name);
+
+const clamp = (value: number) => Math.max(0, Math.min(1000, value));
+
+function toPoint(value: unknown): AnnotationPoint | null {
+  if (!Array.isArray(value) || value.length !== 2 || !value.every(n => typeof n === 'number' && Number.isFinite(n))) return null;
+  return [clamp(value[0]), clamp(value[1])];
+}
+
+function toBox(value: unknown): AnnotationBox | null {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every(n => typeof n === 'number' && Number.isFinite(n))) return null;
+  const [y1, x1, y2, x2] = value.map(clamp);
+  return [Math.min(y1, y2), Math.min(x1, x2), Math.max(y1, y2), Math.max(x1, x2)];
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim().slice(0, MAX_LABEL_LENGTH);
+  return text || undefined;
+}
+
+function parseAnnotation(raw: unknown): Annotation | string {
+  if (!raw || typeof raw !== 'object') return 'annotation must be an object';
+  const item = raw as Record<string, unknown>;
+  const text = toText(item.text);
+  switch (item.kind) {
+    case 'circle':
+    case 'underline': {
+      const box = toBox(item.box);
+      return box ? { kind: item.kind, box, text } : `${item.kind} needs box [ymin, xmin, ymax, xmax]`;
+    }
+    case 'arrow': {
+      const from = toPoint(item.from);
+      const to = toPoint(item.to);
+      return from && to ? { kind: 'arrow', from, to, text } : 'arrow needs from [y, x] and to [y, x]';
+    }
+    case 'label': {
+      const at = toPoint(item.at);
+      if (!at) return 'label needs at [y, x]';
+      return text ? { kind: 'label', at, text } : 'label needs text';
+    }
+    default:
+      return `unknown annotation kind ${String(item.kind)}`;
+  }
+}
+
+export type AnnotationCallResult =
+  | { action: 'set'; target: AnnotationTarget; annotations: Annotation[]; errors: string[] }
+  | { action: 'error'; error: string };
+
+/**
+ * Validates an annotation function call. Clearing is reported as setting an empty list;
+ * malformed items are dropped and reported back to the model alongside the valid ones.
+ */
+export function parseAnnotationCall(call: FunctionCall): AnnotationCallResult {
+  const args = call.args ?? {};
+  const target = args.target as AnnotationTarget;
+  if (!TARGETS.includes(target)) return { action: 'error', error: 'target must be image or whiteboard' };
+
+  if (call.name === 'clear_annotations') return { action: 'set', target, annotations: [], errors: [] };
+  if (call.name !== 'annotate_work') return { action: 'error', error: `unknown function ${call.name}` };
+  if (!Array.isArray(args.annotations)) return { action: 'error', error: 'annotations must be a list' };
+
+  const annotations: Annotation[] = [];
+  const errors: string[] = [];
+  args.annotations.slice(0, MAX_ANNOTATIONS).forEach((raw, i) => {
+    const parsed = parseAnnotation(raw);
+    if (typeof parsed === 'string') errors.push(`annotation ${i + 1}: ${parsed}`);
+    else annotations.push(parsed);
+  });
+  if (annotations.length === 0) return { action: 'error', error: errors.join('; ') || 'annotations must not be empty' };
+  return { action: 'set', target, annotations, errors };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { PcmBatcher, PcmResampler, TARGET_SAMPLE_RATE } from './audioCapture';
+
+const sine = (rate: number, frequency: number, seconds: number) =>
+  Float32Array.from({ length: Math.round(rate * seconds) }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / rate));
+
+describe('PcmResampler', () => {
+  it.each([48000, 44100])('downsamples %i Hz to 16 kHz', (inputRate) => {
+    const resampler = new PcmResampler(inputRate);
+    const input = sine(inputRate, 440, 1);
+    // Fed in worklet-sized chunks so the state carried between calls is exercised too.
+    const chunks: Float32Array[] = [];
+    for (let offset = 0; offset < input.length; offset += 2048) {
+      chunks.push(resampler.process(input.subarray(offset, offset + 2048)));
+    }
+    const output = Float32Array.from(chunks.flatMap(chunk => [...chunk]));
+
+    expect(Math.abs(output.length - TARGET_SAMPLE_RATE)).toBeLessThanOrEqual(1);
+    // Each output sample averages the ~3 input samples under it, so it should match the tone
+    // at the centre of that window. At 44.1 kHz the window width alternates, hence the looser bound.
+    const step = inputRate / TARGET_SAMPLE_RATE;
+    const errors = Array.from(output, (sample, i) =>
+      sample - Math.sin((2 * Math.PI * 440 * (i * step + (step - 1) / 2)) / inputRate));
+    const rms = Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / errors.length);
+    expect(rms).toBeLessThan(0.03);
+    expect(Math.max(...errors.map(Math.abs))).toBeLessThan(0.08);
+  });
+
+  it('passes audio already at 16 kHz through unchanged', () => {
+    const input = sine(TARGET_SAMPLE_RATE, 440, 0.1);
+    expect(new PcmResampler(TARGET_SAMPLE_RATE).process(input)).toEqual(input);
+  });
+});
+
+describe('PcmBatcher', () => {
+  it('returns full batches across pushes and flushes the remainder', () => {
+    const batcher = new PcmBatcher(4);
+    const samples = Float32Array.from({ length: 10 }, (_, i) => i);
+
+    expect(batcher.push(samples.subarray(0, 3))).toEqual([]);
+    const batches = batcher.push(samples.subarray(3));
+    expect(batches).toEqual([Float32Array.from([0, 1, 2, 3]), Float32Array.from([4, 5, 6, 7])]);
+    expect(batcher.flush()).toEqual(Float32Array.from([8, 9]));
+    expect(batcher.flush()).toBeNull();
+  });
+});
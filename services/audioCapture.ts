@@ -0,0 +1,206 @@
+// Microphone capture on an AudioWorklet. The worklet only copies frames off the audio thread;
+// resampling to the Live API's 16 kHz and batching happen here, independent of the rate the
+// browser chose for the AudioContext.
+
+export const TARGET_SAMPLE_RATE = 16000;
+// 100 ms of 16 kHz audio per `sendRealtimeInput` call.
+export const DEFAULT_BATCH_SAMPLES = 1600;
+// Frames the worklet collects before posting to the main thread (~43 ms at 48 kHz).
+const WORKLET_FRAME_SIZE = 2048;
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+// Plain JS so it can be loaded from a Blob URL without a bundler step.
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.size = options.processorOptions.frameSize;
+    this.buffer = new Float32Array(this.size);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+    const frames = input[0].length;
+    for (let i = 0; i < frames; i++) {
+      let sum = 0;
+      for (let c = 0; c < input.length; c++) sum += input[c][i];
+      this.buffer[this.offset++] = sum / input.length;
+      if (this.offset === this.size) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Float32Array(this.size);
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+/**
+ * Streaming sample-rate converter for mono float PCM. Downsampling averages the input
+ * samples that fall under each output sample, which doubles as a simple anti-aliasing
+ * filter; upsampling interpolates linearly. State carries across `process` calls so
+ * chunk boundaries don't click.
+ */
+export class PcmResampler {
+  private readonly step: number;
+  private pending = new Float32Array(0);
+  // Fractional index into `pending` where the next output sample starts.
+  private position = 0;
+
+  constructor(readonly inputRate: number, readonly outputRate: number = TARGET_SAMPLE_RATE) {
+    if (inputRate <= 0 || outputRate <= 0) throw new Error('Sample rates must be positive');
+    this.step = inputRate / outputRate;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.step === 1) return input.slice();
+
+    const data = new Float32Array(this.pending.length + input.length);
+    data.set(this.pending);
+    data.set(input, this.pending.length);
+
+    const output: number[] = [];
+    for (;;) {
+      const start = this.position;
+      if (this.step > 1) {
+        const first = Math.floor(start);
+        const last = Math.floor(start + this.step);
+        if (last > data.length) break;
+        let sum = 0;
+        for (let i = first; i < last; i++) sum += data[i];
+        output.push(sum / (last - first));
+      } else {
+        const index = Math.floor(start);
+        if (index + 1 >= data.length) break;
+        const fraction = start - index;
+        output.push(data[index] + (data[index + 1] - data[index]) * fraction);
+      }
+      this.position += this.step;
+    }
+
+    const consumed = Math.min(Math.floor(this.position), data.length);
+    this.pending = data.slice(consumed);
+    this.position -= consumed;
+    return Float32Array.from(output);
+  }
+
+  reset() {
+    this.pending = new Float32Array(0);
+    this.position = 0;
+  }
+}
+
+/** Collects samples into fixed-size batches. */
+export class PcmBatcher {
+  private buffer: Float32Array;
+  private length = 0;
+
+  constructor(readonly batchSize: number = DEFAULT_BATCH_SAMPLES) {
+    if (batchSize <= 0) throw new Error('Batch size must be positive');
+    this.buffer = new Float32Array(batchSize);
+  }
+
+  /** Adds samples and returns every batch that is now full, oldest first. */
+  push(samples: Float32Array): Float32Array[] {
+    const batches: Float32Array[] = [];
+    let offset = 0;
+    while (offset < samples.length) {
+      const count = Math.min(this.batchSize - this.length, samples.length - offset);
+      this.buffer.set(samples.subarray(offset, offset + count), this.length);
+      this.length += count;
+      offset += count;
+      if (this.length === this.batchSize) {
+        batches.push(this.buffer);
+        this.buffer = new Float32Array(this.batchSize);
+        this.length = 0;
+      }
+    }
+    return batches;
+  }
+
+  /** Returns the partial batch, if any, and empties the batcher. */
+  flush(): Float32Array | null {
+    if (this.length === 0) return null;
+    const batch = this.buffer.slice(0, this.length);
+    this.length = 0;
+    return batch;
+  }
+
+  clear() {
+    this.length = 0;
+  }
+}
+
+/**
+ * Streams microphone audio as 16 kHz mono batches. `onBatch` is called on the main thread
+ * with `batchSamples` samples at a time.
+ */
+export class MicrophoneCapture {
+  private constructor(
+    private readonly context: AudioContext,
+    private readonly source: MediaStreamAudioSourceNode,
+    private readonly node: AudioWorkletNode,
+    private readonly sink: GainNode,
+  ) {}
+
+  static async start(
+    stream: MediaStream,
+    onBatch: (pcm: Float32Array) => void,
+    batchSamples: number = DEFAULT_BATCH_SAMPLES,
+  ): Promise<MicrophoneCapture> {
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    if (!context.audioWorklet) {
+      await context.close();
+      throw new Error('AudioWorklet is not supported in this browser');
+    }
+
+    const moduleUrl = URL.createObjectURL(new globalThis.Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } catch (error) {
+      await context.close();
+      throw error;
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const resampler = new PcmResampler(context.sampleRate, TARGET_SAMPLE_RATE);
+    const batcher = new PcmBatcher(batchSamples);
+    const source = context.createMediaStreamSource(stream);
+    const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCountMode: 'explicit',
+      channelCount: 1,
+      processorOptions: { frameSize: WORKLET_FRAME_SIZE },
+    });
+    node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      for (const batch of batcher.push(resampler.process(event.data))) {
+        onBatch(batch);
+      }
+    };
+
+    // A muted sink keeps the graph pulling audio through the worklet without echoing the mic.
+    const sink = context.createGain();
+    sink.gain.value = 0;
+    source.connect(node);
+    node.connect(sink);
+    sink.connect(context.destination);
+    if (context.state === 'suspended') await context.resume();
+
+    return new MicrophoneCapture(context, source, node, sink);
+  }
+
+  async stop() {
+    this.node.port.onmessage = null;
+    this.source.disconnect();
+    this.node.disconnect();
+    this.sink.disconnect();
+    if (this.context.state !== 'closed') await this.context.close();
+  }
+}
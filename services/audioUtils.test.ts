@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { floatTo16BitPcm } from './audioUtils';
+
+describe('floatTo16BitPcm', () => {
+  it('scales full-scale samples to the Int16 range', () => {
+    expect(Array.from(floatTo16BitPcm(Float32Array.from([1, -1, 0])))).toEqual([32767, -32768, 0]);
+  });
+
+  it('clamps samples beyond ±1.0', () => {
+    expect(Array.from(floatTo16BitPcm(Float32Array.from([1.5, -2, 10, -10])))).toEqual([32767, -32768, 32767, -32768]);
+  });
+});
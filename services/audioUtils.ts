@@ -39,12 +39,20 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlob(data: Float32Array): Blob {
+// Converts float samples to 16-bit PCM. Samples are clamped to [-1, 1] first, since
+// `1.0 * 32768` would wrap around to -32768 in an Int16Array.
+export function floatTo16BitPcm(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = sample < 0 ? sample * 32768 : sample * 32767;
   }
+  return int16;
+}
+
+export function createBlob(data: Float32Array): Blob {
+  const int16 = floatTo16BitPcm(data);
   return {
     data: encode(new Uint8Array(int16.buffer)),
     mimeType: 'audio/pcm;rate=16000',
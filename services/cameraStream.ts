@@ -0,0 +1,92 @@
+export interface CameraStreamOptions {
+  framesPerSecond: number;
+  // Longest side of each frame in pixels.
+  maxDimension: number;
+}
+
+export const CAMERA_FRAME_RATES: { value: number; label: string }[] = [
+  { value: 0.5, label: '1 frame / 2 s' },
+  { value: 1, label: '1 fps' },
+  { value: 2, label: '2 fps' },
+];
+
+export const CAMERA_RESOLUTIONS: { value: number; label: string }[] = [
+  { value: 480, label: 'Low (480px)' },
+  { value: 768, label: 'Medium (768px)' },
+  { value: 1024, label: 'High (1024px)' },
+];
+
+export const CAMERA_INSTRUCTION = `The student can also stream their device camera to you while they work on paper; you then receive low-rate video frames of the page. Follow their written work as it appears and refer to specific lines when it helps. Frames may be blurry or partly out of view; ask the student to hold the page steady rather than guessing at unreadable work.`;
+
+const JPEG_QUALITY = 0.6;
+
+/**
+ * Samples frames from a camera stream at a fixed low rate and hands them out as base64 JPEG
+ * (without the data URL prefix). The caller owns the MediaStream and stops its tracks.
+ */
+export class CameraStreamer {
+  private readonly canvas = document.createElement('canvas');
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private paused = false;
+
+  private constructor(
+    private readonly video: HTMLVideoElement,
+    private options: CameraStreamOptions,
+    private readonly onFrame: (base64Jpeg: string) => void,
+  ) {}
+
+  static async start(
+    stream: MediaStream,
+    options: CameraStreamOptions,
+    onFrame: (base64Jpeg: string) => void,
+  ): Promise<CameraStreamer> {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    await video.play();
+
+    const streamer = new CameraStreamer(video, options, onFrame);
+    streamer.schedule();
+    return streamer;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  setOptions(options: CameraStreamOptions) {
+    this.options = options;
+    this.schedule();
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+  }
+
+  stop() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+    this.video.pause();
+    this.video.srcObject = null;
+  }
+
+  private schedule() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = setInterval(() => this.captureFrame(), 1000 / this.options.framesPerSecond);
+  }
+
+  private captureFrame() {
+    const { video, canvas } = this;
+    if (this.paused || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return;
+    const scale = Math.min(1, this.options.maxDimension / Math.max(video.videoWidth, video.videoHeight));
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+    this.onFrame(canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1]);
+  }
+}
@@ -0,0 +1,318 @@
+import { Construction, ConstructionPoint, ConstructionShape } from '../types';
+
+export type ConstructionTool = 'point' | 'ruler' | 'compass' | 'protractor' | 'label' | 'erase';
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+// One grid square is one unit in every measurement the tutor sees.
+export const GRID_SIZE = 40;
+const POINT_SNAP_RADIUS = 14;
+const GRID_SNAP_RADIUS = 8;
+const ANGLE_SNAP_DEGREES = 15;
+const ANGLE_SNAP_TOLERANCE = 4;
+const HIT_RADIUS = 8;
+const ANGLE_ARC_RADIUS = 26;
+export const MAX_LABEL_LENGTH = 3;
+
+const COLORS = {
+  grid: '#1F2937',
+  point: '#FACC15',
+  segment: '#60A5FA',
+  circle: '#34D399',
+  angle: '#F472B6',
+  label: '#FFFFFF',
+  pending: '#9CA3AF',
+};
+
+export const EMPTY_CONSTRUCTION: Construction = { points: [], shapes: [] };
+
+export const distance = (a: Position, b: Position) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const findPoint = (construction: Construction, id: string) => construction.points.find(point => point.id === id);
+
+export function nearestPoint(construction: Construction, at: Position, radius = POINT_SNAP_RADIUS): ConstructionPoint | null {
+  let best: ConstructionPoint | null = null;
+  construction.points.forEach(point => {
+    if (distance(point, at) <= radius && (!best || distance(point, at) < distance(best, at))) best = point;
+  });
+  return best;
+}
+
+/** Snaps to an existing point, else to a nearby grid intersection, else leaves the position alone. */
+export function snapPosition(construction: Construction, at: Position): { position: Position; point: ConstructionPoint | null } {
+  const point = nearestPoint(construction, at);
+  if (point) return { position: { x: point.x, y: point.y }, point };
+  const grid = { x: Math.round(at.x / GRID_SIZE) * GRID_SIZE, y: Math.round(at.y / GRID_SIZE) * GRID_SIZE };
+  return { position: distance(grid, at) <= GRID_SNAP_RADIUS ? grid : at, point: null };
+}
+
+/** Rotates a ruler's free end onto the nearest multiple of 15° when it is already close to one. */
+export function snapDirection(from: Position, to: Position): Position {
+  const length = distance(from, to);
+  if (length === 0) return to;
+  const degrees = (Math.atan2(to.y - from.y, to.x - from.x) * 180) / Math.PI;
+  const snapped = Math.round(degrees / ANGLE_SNAP_DEGREES) * ANGLE_SNAP_DEGREES;
+  if (Math.abs(degrees - snapped) > ANGLE_SNAP_TOLERANCE) return to;
+  const radians = (snapped * Math.PI) / 180;
+  return { x: from.x + length * Math.cos(radians), y: from.y + length * Math.sin(radians) };
+}
+
+// A, B, ... Z, then A1, B1, ...
+export function nextLabel(construction: Construction): string {
+  const used = new Set(construction.points.map(point => point.label));
+  for (let round = 0; ; round++) {
+    for (let i = 0; i < 26; i++) {
+      const label = `${String.fromCharCode(65 + i)}${round === 0 ? '' : round}`;
+      if (!used.has(label)) return label;
+    }
+  }
+}
+
+let idCounter = 0;
+const createPointId = () => `p${Date.now().toString(36)}${(idCounter++).toString(36)}`;
+
+/** Returns the point at `position`, adding a new labeled one unless an existing point is already there. */
+export function ensurePoint(construction: Construction, position: Position): { construction: Construction; point: ConstructionPoint } {
+  const existing = nearestPoint(construction, position);
+  if (existing) return { construction, point: existing };
+  const point: ConstructionPoint = { id: createPointId(), label: nextLabel(construction), x: position.x, y: position.y };
+  return { construction: { ...construction, points: [...construction.points, point] }, point };
+}
+
+export const addShape = (construction: Construction, shape: ConstructionShape): Construction =>
+  ({ ...construction, shapes: [...construction.shapes, shape] });
+
+export const renamePoint = (construction: Construction, id: string, label: string): Construction =>
+  ({ ...construction, points: construction.points.map(point => (point.id === id ? { ...point, label } : point)) });
+
+/** Measured angle at `vertex` in degrees, between 0 and 180. */
+export function angleAt(vertex: Position, from: Position, to: Position): number {
+  const a = Math.atan2(from.y - vertex.y, from.x - vertex.x);
+  const b = Math.atan2(to.y - vertex.y, to.x - vertex.x);
+  let degrees = Math.abs(((b - a) * 180) / Math.PI) % 360;
+  if (degrees > 180) degrees = 360 - degrees;
+  return degrees;
+}
+
+function distanceToSegment(p: Position, a: Position, b: Position): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function shapeHit(construction: Construction, shape: ConstructionShape, at: Position): boolean {
+  if (shape.kind === 'segment') {
+    const from = findPoint(construction, shape.from);
+    const to = findPoint(construction, shape.to);
+    return !!from && !!to && distanceToSegment(at, from, to) <= HIT_RADIUS;
+  }
+  if (shape.kind === 'circle') {
+    const center = findPoint(construction, shape.center);
+    return !!center && Math.abs(distance(center, at) - shape.radius) <= HIT_RADIUS;
+  }
+  const vertex = findPoint(construction, shape.vertex);
+  return !!vertex && Math.abs(distance(vertex, at) - ANGLE_ARC_RADIUS) <= HIT_RADIUS;
+}
+
+const usesPoint = (shape: ConstructionShape, id: string) =>
+  shape.kind === 'segment' ? shape.from === id || shape.to === id
+    : shape.kind === 'circle' ? shape.center === id
+      : shape.vertex === id || shape.from === id || shape.to === id;
+
+/** Erases the point under `at` together with everything built on it, or else the topmost shape there. */
+export function eraseAt(construction: Construction, at: Position): Construction {
+  const point = nearestPoint(construction, at, HIT_RADIUS + 2);
+  if (point) {
+    return {
+      points: construction.points.filter(other => other.id !== point.id),
+      shapes: construction.shapes.filter(shape => !usesPoint(shape, point.id)),
+    };
+  }
+  const index = construction.shapes.map(shape => shapeHit(construction, shape, at)).lastIndexOf(true);
+  return index === -1 ? construction : { ...construction, shapes: construction.shapes.filter((_, i) => i !== index) };
+}
+
+export const formatLength = (pixels: number) => String(Number((pixels / GRID_SIZE).toFixed(2)));
+export const formatAngle = (degrees: number) => `${Number(degrees.toFixed(1))}°`;
+
+// A figure being drawn: a ruler or compass drag, or the points picked so far with the protractor.
+export type PendingShape =
+  | { kind: 'segment'; from: Position; to: Position }
+  | { kind: 'circle'; center: Position; through: Position }
+  | { kind: 'angle'; picked: Position[]; cursor: Position | null };
+
+function drawAngleArc(ctx: CanvasRenderingContext2D, vertex: Position, from: Position, to: Position, color: string) {
+  const a = Math.atan2(from.y - vertex.y, from.x - vertex.x);
+  const b = Math.atan2(to.y - vertex.y, to.x - vertex.x);
+  // Always mark the inner angle, whichever way round the arms were picked.
+  let sweep = b - a;
+  while (sweep <= -Math.PI) sweep += 2 * Math.PI;
+  while (sweep > Math.PI) sweep -= 2 * Math.PI;
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(vertex.x, vertex.y, ANGLE_ARC_RADIUS, a, a + sweep, sweep < 0);
+  ctx.stroke();
+  const middle = a + sweep / 2;
+  ctx.font = '13px sans-serif';
+  ctx.fillText(formatAngle(angleAt(vertex, from, to)), vertex.x + Math.cos(middle) * (ANGLE_ARC_RADIUS + 8), vertex.y + Math.sin(middle) * (ANGLE_ARC_RADIUS + 8) + 4);
+}
+
+/** Draws the construction (and an in-progress shape) in CSS pixel coordinates. */
+export function drawConstruction(ctx: CanvasRenderingContext2D, construction: Construction, width: number, height: number, pending?: PendingShape | null) {
+  ctx.save();
+  ctx.lineCap = 'round';
+
+  ctx.fillStyle = COLORS.grid;
+  for (let x = GRID_SIZE; x < width; x += GRID_SIZE) {
+    for (let y = GRID_SIZE; y < height; y += GRID_SIZE) {
+      ctx.fillRect(x - 1, y - 1, 2, 2);
+    }
+  }
+
+  ctx.font = '12px sans-serif';
+  construction.shapes.forEach(shape => {
+    if (shape.kind === 'segment') {
+      const from = findPoint(construction, shape.from);
+      const to = findPoint(construction, shape.to);
+      if (!from || !to) return;
+      ctx.strokeStyle = COLORS.segment;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+      ctx.fillStyle = COLORS.segment;
+      ctx.fillText(formatLength(distance(from, to)), (from.x + to.x) / 2 + 6, (from.y + to.y) / 2 - 6);
+    } else if (shape.kind === 'circle') {
+      const center = findPoint(construction, shape.center);
+      if (!center) return;
+      ctx.strokeStyle = COLORS.circle;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(center.x, center.y, shape.radius, 0, Math.PI * 2);
+      ctx.stroke();
+    } else {
+      const vertex = findPoint(construction, shape.vertex);
+      const from = findPoint(construction, shape.from);
+      const to = findPoint(construction, shape.to);
+      if (vertex && from && to) drawAngleArc(ctx, vertex, from, to, COLORS.angle);
+    }
+  });
+
+  if (pending) {
+    ctx.setLineDash([6, 4]);
+    ctx.strokeStyle = COLORS.pending;
+    ctx.fillStyle = COLORS.pending;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    if (pending.kind === 'segment') {
+      ctx.moveTo(pending.from.x, pending.from.y);
+      ctx.lineTo(pending.to.x, pending.to.y);
+      ctx.stroke();
+      ctx.fillText(formatLength(distance(pending.from, pending.to)), pending.to.x + 8, pending.to.y - 8);
+    } else if (pending.kind === 'circle') {
+      ctx.arc(pending.center.x, pending.center.y, distance(pending.center, pending.through), 0, Math.PI * 2);
+      ctx.moveTo(pending.center.x, pending.center.y);
+      ctx.lineTo(pending.through.x, pending.through.y);
+      ctx.stroke();
+      ctx.fillText(`r = ${formatLength(distance(pending.center, pending.through))}`, pending.through.x + 8, pending.through.y - 8);
+    } else {
+      const arms = [...pending.picked, ...(pending.cursor ? [pending.cursor] : [])];
+      arms.forEach((position, i) => (i === 0 ? ctx.moveTo(position.x, position.y) : ctx.lineTo(position.x, position.y)));
+      ctx.stroke();
+      if (arms.length === 3) {
+        ctx.setLineDash([]);
+        drawAngleArc(ctx, arms[1], arms[0], arms[2], COLORS.pending);
+      }
+    }
+    ctx.setLineDash([]);
+  }
+
+  construction.points.forEach(point => {
+    ctx.fillStyle = COLORS.point;
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = COLORS.label;
+    ctx.font = 'bold 14px sans-serif';
+    ctx.fillText(point.label, point.x + 7, point.y - 7);
+  });
+  ctx.restore();
+}
+
+/**
+ * A plain-text description of the figure for the tutor, with exact measurements in grid
+ * units. Coordinates put the first point at the origin with y pointing up.
+ */
+export function describeConstruction(construction: Construction): string {
+  const origin = construction.points[0];
+  if (!origin) return '';
+  const label = (id: string) => findPoint(construction, id)?.label ?? '?';
+  const coordinate = (value: number) => String(Number((value / GRID_SIZE).toFixed(2)));
+  const lines = [
+    'Geometry construction (lengths in grid units, first point at the origin, y pointing up):',
+    `Points: ${construction.points.map(point => `${point.label}(${coordinate(point.x - origin.x)}, ${coordinate(origin.y - point.y)})`).join(', ')}`,
+  ];
+
+  const segments = construction.shapes.flatMap(shape => {
+    if (shape.kind !== 'segment') return [];
+    const from = findPoint(construction, shape.from);
+    const to = findPoint(construction, shape.to);
+    return from && to ? [`${from.label}${to.label} = ${formatLength(distance(from, to))}`] : [];
+  });
+  if (segments.length > 0) lines.push(`Segments: ${segments.join(', ')}`);
+
+  const circles = construction.shapes.flatMap(shape =>
+    shape.kind === 'circle' && findPoint(construction, shape.center)
+      ? [`center ${label(shape.center)}, radius ${formatLength(shape.radius)}`]
+      : []);
+  if (circles.length > 0) lines.push(`Circles: ${circles.join('; ')}`);
+
+  const angles = construction.shapes.flatMap(shape => {
+    if (shape.kind !== 'angle') return [];
+    const vertex = findPoint(construction, shape.vertex);
+    const from = findPoint(construction, shape.from);
+    const to = findPoint(construction, shape.to);
+    return vertex && from && to ? [`∠${from.label}${vertex.label}${to.label} = ${formatAngle(angleAt(vertex, from, to))}`] : [];
+  });
+  if (angles.length > 0) lines.push(`Angles: ${angles.join(', ')}`);
+
+  return lines.join('\n');
+}
+
+export const isEmptyConstruction = (construction: Construction) => construction.points.length === 0;
+
+export interface ConstructionHistory {
+  past: Construction[];
+  present: Construction;
+  future: Construction[];
+}
+
+export const EMPTY_CONSTRUCTION_HISTORY: ConstructionHistory = { past: [], present: EMPTY_CONSTRUCTION, future: [] };
+
+export function commitConstruction(history: ConstructionHistory, construction: Construction): ConstructionHistory {
+  if (construction === history.present) return history;
+  return { past: [...history.past, history.present], present: construction, future: [] };
+}
+
+export function undoConstruction(history: ConstructionHistory): ConstructionHistory {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoConstruction(history: ConstructionHistory): ConstructionHistory {
+  if (history.future.length === 0) return history;
+  const [present, ...future] = history.future;
+  return { past: [...history.past, history.present], present, future };
+}
@@ -0,0 +1,59 @@
+const DB_NAME = 'lava-math-tutor';
+const DB_VERSION = 4;
+
+export const SESSIONS_STORE = 'sessions';
+export const PROFILES_STORE = 'profiles';
+export const MASTERY_STORE = 'mastery';
+export const SUPERVISOR_STORE = 'supervisor';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const tx = request.transaction!;
+      const sessions = db.objectStoreNames.contains(SESSIONS_STORE)
+        ? tx.objectStore(SESSIONS_STORE)
+        : db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      if (!sessions.indexNames.contains('startedAt')) sessions.createIndex('startedAt', 'startedAt');
+      if (!sessions.indexNames.contains('profileId')) sessions.createIndex('profileId', 'profileId');
+      if (!db.objectStoreNames.contains(PROFILES_STORE)) {
+        db.createObjectStore(PROFILES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(MASTERY_STORE)) {
+        db.createObjectStore(MASTERY_STORE, { keyPath: 'profileId' });
+      }
+      if (!db.objectStoreNames.contains(SUPERVISOR_STORE)) {
+        db.createObjectStore(SUPERVISOR_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+// Runs a single request in its own transaction and resolves once the transaction commits.
+export function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+export function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
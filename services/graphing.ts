@@ -0,0 +1,438 @@
+import { FunctionCall, FunctionDeclaration, Type } from '@google/genai';
+import { isFunctionNode, isSymbolNode, parse, MathNode } from 'mathjs';
+import { GraphParameter, GraphPoint, GraphState, GraphTangent } from '../types';
+import { MATH_CONSTANTS, normalizeMathInput } from './mathEngine';
+import { CANVAS_BACKGROUND } from './strokes';
+
+export type Relation = '=' | '<' | '<=' | '>' | '>=';
+
+// `y <relation> f(x)` for functions and y-inequalities, `x <relation> c` for vertical lines and x-inequalities.
+export interface Curve {
+  source: string;
+  kind: 'function' | 'vertical';
+  relation: Relation;
+  evaluate: (x: number, parameters: Record<string, number>) => number;
+}
+
+const MAX_EXPRESSIONS = 6;
+const MAX_POINTS = 20;
+const MAX_TANGENTS = 4;
+const MAX_LABEL_LENGTH = 30;
+const DEFAULT_X_RANGE: [number, number] = [-10, 10];
+const DEFAULT_PARAMETER: Omit<GraphParameter, 'name'> = { value: 1, min: -10, max: 10 };
+const FLIPPED: Record<Relation, Relation> = { '=': '=', '<': '>', '<=': '>=', '>': '<', '>=': '<=' };
+export const CURVE_COLORS = ['#60A5FA', '#F472B6', '#34D399', '#FBBF24', '#A78BFA', '#F87171'];
+const TANGENT_COLOR = '#E5E7EB';
+const EXPORT_WIDTH = 960;
+const EXPORT_HEIGHT = 720;
+
+export const GRAPH_INSTRUCTION = `When a question is about a function, a graph, an inequality or a tangent line, show it instead of only describing it: call plot with the expressions to draw, for example ["y = a*x^2 + b", "y >= 2x - 1", "x = 3"], and optionally points and tangent lines. Any letter other than x, y and the constants e and i becomes a slider the student can move, so use parameters like a and b when you want them to explore how a graph changes. Write expressions in calculator notation, not LaTeX. Calling plot again replaces the graph. The student can send you the graph as an image with their slider settings. Call close_graph when you are done with it. Do not read the tool calls aloud.`;
+
+export const GRAPH_FUNCTIONS: FunctionDeclaration[] = [
+  {
+    name: 'plot',
+    description: 'Open the graphing panel next to the conversation and draw functions, inequalities, points and tangent lines. Replaces any earlier graph.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        expressions: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: 'Up to 6 expressions such as "y = x^2 - 4", "f(x) = sin(a*x)", "y < 2x + 1" or "x = 3".',
+        },
+        x_range: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: 'The visible [min, max] of x. Defaults to [-10, 10].' },
+        y_range: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: 'The visible [min, max] of y. Chosen automatically when omitted.' },
+        points: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              x: { type: Type.NUMBER },
+              y: { type: Type.NUMBER },
+              label: { type: Type.STRING, description: 'A short label such as "vertex".' },
+            },
+            required: ['x', 'y'],
+          },
+        },
+        tangents: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              expression: { type: Type.INTEGER, description: 'The 1-based position of the function in expressions.' },
+              x: { type: Type.NUMBER, description: 'Where the tangent touches the curve.' },
+            },
+            required: ['expression', 'x'],
+          },
+        },
+        parameters: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              value: { type: Type.NUMBER, description: 'The starting value. Defaults to 1.' },
+              min: { type: Type.NUMBER, description: 'Defaults to -10.' },
+              max: { type: Type.NUMBER, description: 'Defaults to 10.' },
+            },
+            required: ['name'],
+          },
+          description: 'Slider settings for letters used in the expressions.',
+        },
+      },
+      required: ['expressions'],
+    },
+  },
+  {
+    name: 'close_graph',
+    description: 'Close the graphing panel.',
+    parameters: { type: Type.OBJECT, properties: {} },
+  },
+];
+
+export const isGraphCall = (call: FunctionCall) =>
+  GRAPH_FUNCTIONS.some(declaration => declaration.name === call.name);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function symbolsOf(node: MathNode): string[] {
+  const functionNames = new Set<string>();
+  const names = new Set<string>();
+  node.traverse(child => {
+    if (isFunctionNode(child) && isSymbolNode(child.fn)) functionNames.add(child.fn.name);
+    else if (isSymbolNode(child)) names.add(child.name);
+  });
+  return [...names].filter(name => !functionNames.has(name) && !MATH_CONSTANTS.has(name));
+}
+
+/** Parses one expression into a drawable curve and the parameter names it uses. */
+export function compileExpression(source: string): { curve: Curve; parameters: string[] } {
+  const text = normalizeMathInput(source).replace(/≤/g, '<=').replace(/≥/g, '>=');
+  const match = /^(.*?)(<=|>=|<|>|=)(.*)$/.exec(text);
+  let lhs = match ? match[1].trim() : 'y';
+  let rhs = match ? match[3].trim() : text;
+  let relation = (match ? match[2] : '=') as Relation;
+  const isFunctionSide = (side: string) => side === 'y' || /^[a-zA-Z]\w*\(x\)$/.test(side);
+  if ((rhs === 'y' || rhs === 'x') && !isFunctionSide(lhs)) {
+    [lhs, rhs] = [rhs, lhs];
+    relation = FLIPPED[relation];
+  }
+  const kind = isFunctionSide(lhs) ? 'function' : lhs === 'x' ? 'vertical' : null;
+  if (!kind) throw new Error(`"${source}" must be written as y = ..., f(x) = ..., an inequality in y, or x = a number`);
+
+  let node: MathNode;
+  try {
+    node = parse(rhs);
+  } catch (error) {
+    throw new Error(`could not read "${source}": ${(error as Error).message}`);
+  }
+  const symbols = symbolsOf(node);
+  if (symbols.includes('y')) throw new Error(`"${source}" must give y in terms of x`);
+  if (kind === 'vertical' && symbols.includes('x')) throw new Error(`"${source}" must compare x with a number`);
+
+  const compiled = node.compile();
+  const evaluate = (x: number, parameters: Record<string, number>) => {
+    try {
+      const value = compiled.evaluate({ ...parameters, x });
+      return typeof value === 'number' ? value : NaN;
+    } catch {
+      return NaN;
+    }
+  };
+  return {
+    curve: { source: source.trim(), kind, relation, evaluate: kind === 'vertical' ? (_x, parameters) => evaluate(0, parameters) : evaluate },
+    parameters: symbols.filter(name => name !== 'x'),
+  };
+}
+
+// Expressions in a GraphState were validated by parsePlotCall, so compiling them again cannot fail.
+export const compileGraph = (expressions: string[]): Curve[] => expressions.map(source => compileExpression(source).curve);
+
+export const parameterValues = (parameters: GraphParameter[]): Record<string, number> =>
+  Object.fromEntries(parameters.map(parameter => [parameter.name, parameter.value]));
+
+function readRange(value: unknown): [number, number] | null {
+  if (!Array.isArray(value) || value.length !== 2 || !value.every(isFiniteNumber)) return null;
+  const [min, max] = value[0] < value[1] ? value : [value[1], value[0]];
+  return max - min > 1e-6 && max - min < 1e6 ? [min, max] : null;
+}
+
+function readParameter(name: string, raw: unknown): GraphParameter {
+  const spec = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  let min = isFiniteNumber(spec.min) ? spec.min : DEFAULT_PARAMETER.min;
+  let max = isFiniteNumber(spec.max) ? spec.max : DEFAULT_PARAMETER.max;
+  if (min >= max) [min, max] = [DEFAULT_PARAMETER.min, DEFAULT_PARAMETER.max];
+  const value = isFiniteNumber(spec.value) ? spec.value : DEFAULT_PARAMETER.value;
+  return { name, value: Math.max(min, Math.min(max, value)), min, max };
+}
+
+// Fits the y-axis to the middle 90% of the curves' values so asymptotes don't flatten everything else.
+function autoYRange(curves: Curve[], xRange: [number, number], parameters: Record<string, number>, points: GraphPoint[]): [number, number] {
+  const values: number[] = points.map(point => point.y);
+  curves.filter(curve => curve.kind === 'function').forEach(curve => {
+    for (let i = 0; i <= 200; i++) {
+      const y = curve.evaluate(xRange[0] + ((xRange[1] - xRange[0]) * i) / 200, parameters);
+      if (Number.isFinite(y)) values.push(y);
+    }
+  });
+  if (values.length === 0) return [...DEFAULT_X_RANGE];
+  values.sort((a, b) => a - b);
+  const low = values[Math.floor(values.length * 0.05)];
+  const high = values[Math.ceil(values.length * 0.95) - 1];
+  if (high - low < 1e-6) return [low - 5, high + 5];
+  const padding = (high - low) * 0.1;
+  return [low - padding, high + padding];
+}
+
+/**
+ * Validates a plot call into a graph. Bad expressions make the whole call fail so the tutor
+ * can fix them; bad points and tangents are dropped and reported.
+ */
+export function parsePlotCall(call: FunctionCall): { state: GraphState; response: Record<string, unknown> } | { error: string } {
+  const args = call.args ?? {};
+  if (!Array.isArray(args.expressions) || args.expressions.length === 0) return { error: 'expressions must be a non-empty list' };
+  if (args.expressions.length > MAX_EXPRESSIONS) return { error: `at most ${MAX_EXPRESSIONS} expressions can be plotted` };
+
+  const curves: Curve[] = [];
+  const parameterNames: string[] = [];
+  for (const expression of args.expressions) {
+    if (typeof expression !== 'string') return { error: 'every expression must be a string' };
+    try {
+      const { curve, parameters } = compileExpression(expression);
+      curves.push(curve);
+      parameters.forEach(name => { if (!parameterNames.includes(name)) parameterNames.push(name); });
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }
+
+  const rawParameters: unknown[] = Array.isArray(args.parameters) ? args.parameters : [];
+  const parameters = parameterNames.map(name => readParameter(name, rawParameters.find(raw =>
+    !!raw && typeof raw === 'object' && (raw as Record<string, unknown>).name === name)));
+  const skipped: string[] = [];
+
+  const points = (Array.isArray(args.points) ? args.points : []).slice(0, MAX_POINTS).flatMap((raw: unknown): GraphPoint[] => {
+    const { x, y, label } = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    if (!isFiniteNumber(x) || !isFiniteNumber(y)) {
+      skipped.push('a point without numeric x and y');
+      return [];
+    }
+    const text = typeof label === 'string' && label.trim() ? label.trim().slice(0, MAX_LABEL_LENGTH) : undefined;
+    return [{ x, y, ...(text && { label: text }) }];
+  });
+
+  const tangents = (Array.isArray(args.tangents) ? args.tangents : []).slice(0, MAX_TANGENTS).flatMap((raw: unknown): GraphTangent[] => {
+    const { expression, x } = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const index = typeof expression === 'number' && Number.isInteger(expression) ? expression - 1 : -1;
+    if (curves[index]?.kind !== 'function' || curves[index].relation !== '=' || !isFiniteNumber(x)) {
+      skipped.push(`tangent ${JSON.stringify(raw)} must name a function by its 1-based position and give x`);
+      return [];
+    }
+    return [{ expression: index, x }];
+  });
+
+  const xRange = readRange(args.x_range) ?? DEFAULT_X_RANGE;
+  const yRange = readRange(args.y_range) ?? autoYRange(curves, xRange, parameterValues(parameters), points);
+  return {
+    state: { expressions: curves.map(curve => curve.source), xRange, yRange, points, tangents, parameters },
+    response: {
+      result: 'ok',
+      y_range: yRange.map(value => Number(value.toPrecision(4))),
+      ...(parameters.length > 0 && { sliders: parameters.map(parameter => parameter.name) }),
+      ...(skipped.length > 0 && { skipped }),
+    },
+  };
+}
+
+export const formatNumber = (value: number) => String(Number(value.toFixed(Math.abs(value) >= 100 ? 0 : 2)));
+
+const DERIVATIVE_STEP = 1e-4;
+
+export function tangentLine(curve: Curve, x: number, parameters: Record<string, number>): { slope: number; intercept: number } | null {
+  const y = curve.evaluate(x, parameters);
+  const slope = (curve.evaluate(x + DERIVATIVE_STEP, parameters) - curve.evaluate(x - DERIVATIVE_STEP, parameters)) / (2 * DERIVATIVE_STEP);
+  if (!Number.isFinite(y) || !Number.isFinite(slope)) return null;
+  return { slope, intercept: y - slope * x };
+}
+
+const describeLine = ({ slope, intercept }: { slope: number; intercept: number }) =>
+  `y = ${formatNumber(slope)}x ${intercept < 0 ? '-' : '+'} ${formatNumber(Math.abs(intercept))}`;
+
+function niceStep(span: number): number {
+  const rough = span / 8;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const normalized = rough / magnitude;
+  return (normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10) * magnitude;
+}
+
+function legendLines(state: GraphState, curves: Curve[], values: Record<string, number>): { text: string; color: string }[] {
+  return [
+    ...curves.map((curve, i) => ({ text: curve.source, color: CURVE_COLORS[i % CURVE_COLORS.length] })),
+    ...state.tangents.flatMap(tangent => {
+      const line = tangentLine(curves[tangent.expression], tangent.x, values);
+      return line ? [{ text: `tangent at x = ${formatNumber(tangent.x)}: ${describeLine(line)}`, color: TANGENT_COLOR }] : [];
+    }),
+    ...(state.parameters.length > 0
+      ? [{ text: state.parameters.map(parameter => `${parameter.name} = ${formatNumber(parameter.value)}`).join(', '), color: '#9CA3AF' }]
+      : []),
+  ];
+}
+
+/** Draws the graph into a canvas context of the given CSS size. */
+export function drawGraph(ctx: CanvasRenderingContext2D, width: number, height: number, state: GraphState, curves: Curve[]) {
+  const values = parameterValues(state.parameters);
+  const [x0, x1] = state.xRange;
+  const [y0, y1] = state.yRange;
+  const toX = (x: number) => ((x - x0) / (x1 - x0)) * width;
+  const toY = (y: number) => height - ((y - y0) / (y1 - y0)) * height;
+  const fromX = (px: number) => x0 + (px / width) * (x1 - x0);
+
+  ctx.fillStyle = CANVAS_BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+
+  // Grid and axis labels.
+  ctx.font = '11px sans-serif';
+  ctx.lineWidth = 1;
+  const xStep = niceStep(x1 - x0);
+  const yStep = niceStep(y1 - y0);
+  const axisY = Math.max(0, Math.min(height, toY(0)));
+  const axisX = Math.max(0, Math.min(width, toX(0)));
+  for (let x = Math.ceil(x0 / xStep) * xStep; x <= x1; x += xStep) {
+    ctx.strokeStyle = '#1F2937';
+    ctx.beginPath();
+    ctx.moveTo(toX(x), 0);
+    ctx.lineTo(toX(x), height);
+    ctx.stroke();
+    if (Math.abs(x) > xStep / 2) {
+      ctx.fillStyle = '#6B7280';
+      ctx.fillText(formatNumber(x), toX(x) + 2, Math.min(height - 4, axisY + 12));
+    }
+  }
+  for (let y = Math.ceil(y0 / yStep) * yStep; y <= y1; y += yStep) {
+    ctx.strokeStyle = '#1F2937';
+    ctx.beginPath();
+    ctx.moveTo(0, toY(y));
+    ctx.lineTo(width, toY(y));
+    ctx.stroke();
+    if (Math.abs(y) > yStep / 2) {
+      ctx.fillStyle = '#6B7280';
+      ctx.fillText(formatNumber(y), Math.min(width - 30, axisX + 4), toY(y) - 2);
+    }
+  }
+  ctx.strokeStyle = '#9CA3AF';
+  ctx.beginPath();
+  ctx.moveTo(0, axisY);
+  ctx.lineTo(width, axisY);
+  ctx.moveTo(axisX, 0);
+  ctx.lineTo(axisX, height);
+  ctx.stroke();
+
+  curves.forEach((curve, i) => {
+    const color = CURVE_COLORS[i % CURVE_COLORS.length];
+    const strict = curve.relation === '<' || curve.relation === '>';
+    const shadeAbove = curve.relation === '>' || curve.relation === '>=';
+    ctx.setLineDash(strict ? [6, 4] : []);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+
+    if (curve.kind === 'vertical') {
+      const c = curve.evaluate(0, values);
+      if (!Number.isFinite(c)) return;
+      if (curve.relation !== '=') {
+        ctx.fillStyle = `${color}33`;
+        ctx.fillRect(shadeAbove ? toX(c) : 0, 0, shadeAbove ? width - toX(c) : toX(c), height);
+      }
+      ctx.beginPath();
+      ctx.moveTo(toX(c), 0);
+      ctx.lineTo(toX(c), height);
+      ctx.stroke();
+      return;
+    }
+
+    if (curve.relation !== '=') {
+      ctx.fillStyle = `${color}33`;
+      for (let px = 0; px < width; px++) {
+        const y = curve.evaluate(fromX(px + 0.5), values);
+        if (Number.isNaN(y)) continue;
+        const py = Math.max(0, Math.min(height, toY(y)));
+        ctx.fillRect(px, shadeAbove ? 0 : py, 1, shadeAbove ? py : height - py);
+      }
+    }
+
+    // Break the line where the function is undefined or jumps by more than the view (asymptotes).
+    ctx.beginPath();
+    let drawing = false;
+    let previous = NaN;
+    for (let px = 0; px <= width; px++) {
+      const y = curve.evaluate(fromX(px), values);
+      const py = toY(y);
+      const jumps = Math.abs(py - previous) > height;
+      if (!Number.isFinite(y) || jumps) {
+        drawing = false;
+      }
+      if (Number.isFinite(y)) {
+        const clamped = Math.max(-height, Math.min(2 * height, py));
+        if (drawing) ctx.lineTo(px, clamped);
+        else ctx.moveTo(px, clamped);
+        drawing = true;
+      }
+      previous = py;
+    }
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+
+  state.tangents.forEach(tangent => {
+    const line = tangentLine(curves[tangent.expression], tangent.x, values);
+    if (!line) return;
+    ctx.strokeStyle = TANGENT_COLOR;
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(toX(x0), toY(line.slope * x0 + line.intercept));
+    ctx.lineTo(toX(x1), toY(line.slope * x1 + line.intercept));
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.fillStyle = TANGENT_COLOR;
+    ctx.beginPath();
+    ctx.arc(toX(tangent.x), toY(line.slope * tangent.x + line.intercept), 4, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  ctx.font = '12px sans-serif';
+  state.points.forEach(point => {
+    ctx.fillStyle = '#FACC15';
+    ctx.beginPath();
+    ctx.arc(toX(point.x), toY(point.y), 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillText(point.label ?? `(${formatNumber(point.x)}, ${formatNumber(point.y)})`, toX(point.x) + 6, toY(point.y) - 6);
+  });
+
+  // The legend is drawn into the canvas so a shared image explains itself.
+  const lines = legendLines(state, curves, values);
+  ctx.font = '13px sans-serif';
+  const legendWidth = Math.max(...lines.map(line => ctx.measureText(line.text).width)) + 28;
+  ctx.fillStyle = 'rgba(17, 24, 39, 0.85)';
+  ctx.fillRect(6, 6, legendWidth, lines.length * 18 + 8);
+  lines.forEach((line, i) => {
+    ctx.fillStyle = line.color;
+    ctx.fillRect(12, 14 + i * 18, 10, 3);
+    ctx.fillText(line.text, 28, 20 + i * 18);
+  });
+}
+
+/** Renders the graph at a fixed size as a PNG data URL for sending to the tutor. */
+export function renderGraphImage(state: GraphState): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = EXPORT_WIDTH;
+  canvas.height = EXPORT_HEIGHT;
+  drawGraph(canvas.getContext('2d')!, EXPORT_WIDTH, EXPORT_HEIGHT, state, compileGraph(state.expressions));
+  return canvas.toDataURL('image/png');
+}
+
+/** A text summary sent alongside the image so the tutor has the exact slider values. */
+export function describeGraph(state: GraphState): string {
+  const curves = compileGraph(state.expressions);
+  const lines = legendLines(state, curves, parameterValues(state.parameters));
+  return `Here is my graph for x from ${formatNumber(state.xRange[0])} to ${formatNumber(state.xRange[1])}: ${lines.map(line => line.text).join('; ')}.`;
+}
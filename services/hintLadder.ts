@@ -0,0 +1,42 @@
+import { HintRequest, HintUsage } from '../types';
+
+// From the lightest nudge to the most help short of the answer; the solution sits one rung above.
+export const HINT_LEVELS: { label: string; instruction: string }[] = [
+  { label: 'Nudge', instruction: 'Ask one short guiding question that points the student at what to look at next.' },
+  { label: 'Idea', instruction: 'Name the concept, rule or method that applies to the next step, without applying it.' },
+  { label: 'Next step', instruction: 'Say exactly what the next step is and how to start it, but let the student carry it out.' },
+  { label: 'Worked step', instruction: 'Work the next step fully and explain it, then hand the rest of the problem back to the student.' },
+];
+
+export const SOLUTION_LEVEL = HINT_LEVELS.length + 1;
+
+export const HINT_LADDER_INSTRUCTION = `The student has hint buttons. Pressing one sends you a message starting with "[hint ladder]" that names a hint level; answer it with exactly one hint at that level about the problem or step you are working on, then wait for the student. The levels are: ${HINT_LEVELS.map((level, index) => `${index + 1}. ${level.label}: ${level.instruction}`).join(' ')} A "[hint ladder]" message may also ask you to reveal the solution. Only then may you give the full worked solution with the final answer, even though you otherwise never give it; afterwards, check the student understands it.`;
+
+export const REVEAL_LOCKED_INSTRUCTION = 'A parent or teacher has turned off revealing solutions. Never give the full solution or the final answer, even if the student asks for it.';
+
+/** The level a button press moves to, given the highest level used so far on this step (0 for none). */
+export function nextHintLevel(current: number, request: HintRequest): number {
+  if (request === 'reveal') return SOLUTION_LEVEL;
+  if (request === 'smaller') return Math.max(1, Math.min(current, HINT_LEVELS.length) - 1);
+  return Math.min(HINT_LEVELS.length, current + 1);
+}
+
+export function hintLabel(level: number): string {
+  return level >= SOLUTION_LEVEL ? 'Solution' : HINT_LEVELS[level - 1]?.label ?? 'Hint';
+}
+
+/** What the transcript shows for a button press, so reviews read naturally. */
+export function describeHintUsage(usage: HintUsage): string {
+  if (usage.request === 'reveal') return 'Asked to see the solution';
+  return `Asked for a ${usage.request} hint (level ${usage.level} of ${HINT_LEVELS.length}: ${hintLabel(usage.level)})`;
+}
+
+/** The control message sent to the tutor for a button press. */
+export function buildHintMessage(usage: HintUsage): string {
+  if (usage.request === 'reveal') {
+    return '[hint ladder] The student asked to see the solution. Reveal the full worked solution to the current problem, step by step, with the final answer.';
+  }
+  const level = HINT_LEVELS[usage.level - 1];
+  const direction = usage.request === 'smaller' ? 'a smaller hint than your last one' : 'more help';
+  return `[hint ladder] The student asked for ${direction}. Give a level ${usage.level} hint (${level.label}): ${level.instruction}`;
+}
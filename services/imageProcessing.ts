@@ -0,0 +1,174 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners of a page in the source image: top-left, top-right, bottom-right, bottom-left.
+export type Quad = [Point, Point, Point, Point];
+
+// Longest side of any image sent to the tutor; larger photos only cost bandwidth and tokens.
+export const MAX_IMAGE_DIMENSION = 1600;
+
+export interface CleanupOptions {
+  // 1 leaves the image unchanged; higher values push tones away from mid-grey.
+  contrast: number;
+  // When set, pixels become pure black or white around this 0-255 luminance.
+  threshold: number | null;
+}
+
+export const NO_CLEANUP: CleanupOptions = { contrast: 1, threshold: null };
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+}
+
+export function quadFromRect(width: number, height: number): Quad {
+  return [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+}
+
+/** Copies `source` into a new canvas turned clockwise by `quarterTurns` * 90 degrees. */
+export function rotateImage(source: HTMLImageElement | HTMLCanvasElement, quarterTurns: number): HTMLCanvasElement {
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const canvas = turns % 2 === 0 ? createCanvas(width, height) : createCanvas(height, width);
+  const ctx = canvas.getContext('2d')!;
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((turns * Math.PI) / 2);
+  ctx.drawImage(source, -width / 2, -height / 2);
+  return canvas;
+}
+
+/** Returns a copy scaled down so neither side exceeds `maxDimension`; smaller images are copied as-is. */
+export function downscaleToFit(source: HTMLCanvasElement, maxDimension = MAX_IMAGE_DIMENSION): HTMLCanvasElement {
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+  const canvas = createCanvas(source.width * scale, source.height * scale);
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/** Solves the 8x8 system for the homography mapping each `from` point onto the matching `to` point. */
+function solveHomography(from: Quad, to: Quad): number[] | null {
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i];
+    const { x, y } = to[i];
+    rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+  // Gaussian elimination with partial pivoting.
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-9) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Flattens the page outlined by `corners` into an upright rectangle. The output keeps the
+ * page's average edge lengths, capped at `maxDimension`. Returns null for degenerate outlines.
+ */
+export function correctPerspective(source: HTMLCanvasElement, corners: Quad, maxDimension = MAX_IMAGE_DIMENSION): HTMLCanvasElement | null {
+  const [tl, tr, br, bl] = corners;
+  let width = (distance(tl, tr) + distance(bl, br)) / 2;
+  let height = (distance(tl, bl) + distance(tr, br)) / 2;
+  if (width < 1 || height < 1) return null;
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  width = Math.max(1, Math.round(width * scale));
+  height = Math.max(1, Math.round(height * scale));
+
+  // Map output pixels back into the source so every output pixel gets a sample.
+  const h = solveHomography(quadFromRect(width, height), corners);
+  if (!h) return null;
+
+  const input = source.getContext('2d')!.getImageData(0, 0, source.width, source.height);
+  const output = createCanvas(width, height);
+  const outCtx = output.getContext('2d')!;
+  const result = outCtx.createImageData(width, height);
+  const { data: src, width: sw, height: sh } = input;
+  const dst = result.data;
+
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const w = h[6] * u + h[7] * v + h[8];
+      const x = Math.min(sw - 1, Math.max(0, (h[0] * u + h[1] * v + h[2]) / w));
+      const y = Math.min(sh - 1, Math.max(0, (h[3] * u + h[4] * v + h[5]) / w));
+      // Bilinear sample.
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = x - x0;
+      const fy = y - y0;
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = (y0 * sw + x1) * 4;
+      const i01 = (y1 * sw + x0) * 4;
+      const i11 = (y1 * sw + x1) * 4;
+      const o = (v * width + u) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+        const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+        dst[o + c] = top + (bottom - top) * fy;
+      }
+    }
+  }
+  outCtx.putImageData(result, 0, 0);
+  return output;
+}
+
+/** Returns a cleaned-up copy: contrast is applied per channel, then an optional black/white threshold. */
+export function cleanUpImage(source: HTMLCanvasElement, { contrast, threshold }: CleanupOptions): HTMLCanvasElement {
+  const canvas = createCanvas(source.width, source.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(source, 0, 0);
+  if (contrast === 1 && threshold === null) return canvas;
+
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = (data[i] - 128) * contrast + 128;
+    const g = (data[i + 1] - 128) * contrast + 128;
+    const b = (data[i + 2] - 128) * contrast + 128;
+    if (threshold === null) {
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    } else {
+      const value = 0.299 * r + 0.587 * g + 0.114 * b >= threshold ? 255 : 0;
+      data[i] = data[i + 1] = data[i + 2] = value;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+}
+
+/** Downscales an image data URL to the send size and re-encodes it as PNG. */
+export async function prepareImageForSending(src: string): Promise<string> {
+  const image = await loadImage(src);
+  return downscaleToFit(rotateImage(image, 0)).toDataURL('image/png');
+}
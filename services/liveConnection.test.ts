@@ -0,0 +1,67 @@
+import { LiveCallbacks } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveConnection, LiveSession, OpenLiveSession } from './liveConnection';
+
+const fakeSession = (): LiveSession => ({
+  sendRealtimeInput: () => {},
+  sendClientContent: () => {},
+  sendToolResponse: () => {},
+  close: () => {},
+});
+
+const handlers = () => ({
+  onOpen: vi.fn(),
+  onMessage: vi.fn(),
+  onReconnecting: vi.fn(),
+  onClose: vi.fn(),
+});
+
+describe('LiveConnection', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps backing off when the server accepts and then drops every connection', async () => {
+    let latest: LiveCallbacks | null = null;
+    const open: OpenLiveSession = async (_handle, callbacks) => {
+      latest = callbacks;
+      return fakeSession();
+    };
+    const h = handlers();
+    const connection = new LiveConnection(open, h);
+    await connection.start();
+
+    for (let i = 0; i < 7; i++) {
+      latest!.onclose?.({} as CloseEvent);
+      await vi.runOnlyPendingTimersAsync();
+    }
+
+    expect(h.onReconnecting.mock.calls.map(([, delay]) => delay)).toEqual([500, 1000, 2000, 4000, 8000, 15000]);
+    expect(h.onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts the backoff over once a connection finishes setup', async () => {
+    let latest: LiveCallbacks | null = null;
+    const open: OpenLiveSession = async (_handle, callbacks) => {
+      latest = callbacks;
+      return fakeSession();
+    };
+    const h = handlers();
+    const connection = new LiveConnection(open, h);
+    await connection.start();
+
+    latest!.onclose?.({} as CloseEvent);
+    await vi.runOnlyPendingTimersAsync();
+    latest!.onclose?.({} as CloseEvent);
+    await vi.runOnlyPendingTimersAsync();
+    latest!.onmessage({ setupComplete: {} } as Parameters<LiveCallbacks['onmessage']>[0]);
+    latest!.onclose?.({} as CloseEvent);
+
+    expect(h.onReconnecting.mock.calls.map(([, delay]) => delay)).toEqual([500, 1000, 500]);
+    connection.close();
+  });
+});
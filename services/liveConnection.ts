@@ -0,0 +1,180 @@
+import { Blob, LiveCallbacks, LiveSendClientContentParameters, LiveSendToolResponseParameters, LiveServerMessage } from '@google/genai';
+
+// The part of the SDK's session this module uses. Reconnecting swaps the session underneath,
+// so callers hold a `LiveConnection` and ask it for the current one.
+export interface LiveSession {
+  sendRealtimeInput(input: { media: Blob }): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+// Opens one Live connection. `resumptionHandle` is null for a fresh session.
+export type OpenLiveSession = (resumptionHandle: string | null, callbacks: LiveCallbacks) => Promise<LiveSession>;
+
+export interface LiveConnectionHandlers {
+  // `resumed` is true when the server restored the previous context from a resumption handle.
+  onOpen: (info: { isReconnect: boolean; resumed: boolean }) => void;
+  onMessage: (message: LiveServerMessage) => void;
+  onReconnecting: (attempt: number, delayMs: number) => void;
+  // Called once, when the user closes the session or reconnecting gives up.
+  onClose: (error?: unknown) => void;
+}
+
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000, 15000];
+
+/**
+ * Keeps a Live session alive across network drops. Unexpected closes are retried with
+ * backoff, reusing the latest session resumption handle when the server has provided one.
+ */
+export class LiveConnection {
+  private session: LiveSession | null = null;
+  // Settles the callers of `whenConnected` waiting for the next successful connection.
+  private pending: { promise: Promise<LiveSession>; resolve: (s: LiveSession) => void; reject: (e: unknown) => void } | null = null;
+  private resumptionHandle: string | null = null;
+  private attempt = 0;
+  private hasConnected = false;
+  private isClosed = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Incremented per connection so late callbacks from a dropped socket are ignored.
+  private generation = 0;
+
+  constructor(private readonly open: OpenLiveSession, private readonly handlers: LiveConnectionHandlers) {}
+
+  /** The connected session, or null while connecting or reconnecting. */
+  get current(): LiveSession | null {
+    return this.session;
+  }
+
+  get isReconnecting(): boolean {
+    return this.hasConnected && !this.session && !this.isClosed;
+  }
+
+  /** Resolves with the session once connected; rejects if the connection is given up. */
+  whenConnected(): Promise<LiveSession> {
+    if (this.session) return Promise.resolve(this.session);
+    if (this.isClosed) return Promise.reject(new Error('Live session is closed'));
+    if (!this.pending) {
+      let resolve!: (s: LiveSession) => void;
+      let reject!: (e: unknown) => void;
+      const promise = new Promise<LiveSession>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      this.pending = { promise, resolve, reject };
+    }
+    return this.pending.promise;
+  }
+
+  /** Opens the first connection. Rejects, without retrying, if that connection fails. */
+  start(): Promise<LiveSession> {
+    const connected = this.whenConnected();
+    this.connect();
+    return connected;
+  }
+
+  close() {
+    if (this.isClosed) return;
+    this.isClosed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    const session = this.session;
+    this.session = null;
+    this.generation++;
+    session?.close();
+    this.rejectPending(new Error('Live session is closed'));
+    this.handlers.onClose();
+  }
+
+  private resolvePending(session: LiveSession) {
+    this.pending?.resolve(session);
+    this.pending = null;
+  }
+
+  private rejectPending(error: unknown) {
+    this.pending?.reject(error);
+    this.pending = null;
+  }
+
+  private connect() {
+    const generation = ++this.generation;
+    const isReconnect = this.hasConnected;
+    const handle = this.resumptionHandle;
+
+    const isStale = () => generation !== this.generation || this.isClosed;
+
+    this.open(handle, {
+      onopen: () => {
+        if (isStale()) return;
+        this.hasConnected = true;
+      },
+      onmessage: (message) => {
+        if (isStale()) return;
+        // Only a finished setup counts as a working connection; a socket that opens and
+        // drops straight away must keep backing off rather than retry at the shortest delay.
+        if (message.setupComplete) this.attempt = 0;
+        const update = message.sessionResumptionUpdate;
+        if (update?.resumable && update.newHandle) {
+          this.resumptionHandle = update.newHandle;
+        }
+        if (message.goAway) {
+          // The server is about to end this connection; move to a new one while we still can.
+          this.handleDrop(new Error(`Server requested reconnect (time left ${message.goAway.timeLeft ?? 'unknown'})`));
+          return;
+        }
+        this.handlers.onMessage(message);
+      },
+      onerror: (e) => {
+        if (isStale()) return;
+        console.warn('Live session error:', e);
+        this.handleDrop(e);
+      },
+      onclose: (e) => {
+        if (isStale()) return;
+        this.handleDrop(e);
+      },
+    }).then(session => {
+      if (isStale()) {
+        session.close();
+        return;
+      }
+      this.session = session;
+      this.hasConnected = true;
+      this.resolvePending(session);
+      this.handlers.onOpen({ isReconnect, resumed: isReconnect && handle !== null });
+    }, error => {
+      if (isStale()) return;
+      if (!this.hasConnected) {
+        // The first connection failing is reported to the caller of `start`, not retried.
+        this.isClosed = true;
+        this.rejectPending(error);
+        return;
+      }
+      this.handleDrop(error);
+    });
+  }
+
+  private handleDrop(error: unknown) {
+    if (this.isClosed || !this.hasConnected) return;
+    const dropped = this.session;
+    this.session = null;
+    this.generation++;
+    try {
+      dropped?.close();
+    } catch {
+      // Already closed.
+    }
+
+    if (this.attempt >= RECONNECT_DELAYS_MS.length) {
+      this.isClosed = true;
+      this.rejectPending(error);
+      this.handlers.onClose(error);
+      return;
+    }
+    const delay = RECONNECT_DELAYS_MS[this.attempt++];
+    this.handlers.onReconnecting(this.attempt, delay);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.isClosed) this.connect();
+    }, delay);
+  }
+}
@@ -0,0 +1,70 @@
+import { MasteryRecord, SkillAttempt, SkillMastery } from '../types';
+import { MASTERY_STORE, runRequest } from './db';
+import { findSkill } from './skills';
+
+// How far one attempt moves a skill's score; older attempts fade out geometrically.
+const LEARNING_RATE = 0.3;
+// Every hint takes this much off a correct answer's credit, down to MIN_HINTED_CREDIT.
+const HINT_PENALTY = 0.15;
+const MIN_HINTED_CREDIT = 0.4;
+const WEAK_SCORE = 0.6;
+const MIN_ATTEMPTS_FOR_WEAKNESS = 2;
+const MAX_WEAK_AREAS = 3;
+
+const emptyRecord = (profileId: string): MasteryRecord => ({ profileId, skills: {} });
+
+/** Credit for one attempt: 1 for an unaided correct answer, less per hint, 0 when wrong. */
+export function attemptCredit(attempt: SkillAttempt): number {
+  if (!attempt.correct) return 0;
+  return Math.max(MIN_HINTED_CREDIT, 1 - HINT_PENALTY * attempt.hints);
+}
+
+export function applyAttempt(record: MasteryRecord, attempt: SkillAttempt, at = Date.now()): MasteryRecord {
+  const previous: SkillMastery | undefined = record.skills[attempt.skillId];
+  const credit = attemptCredit(attempt);
+  const next: SkillMastery = previous
+    ? {
+        skillId: attempt.skillId,
+        attempts: previous.attempts + 1,
+        correct: previous.correct + (attempt.correct ? 1 : 0),
+        hints: previous.hints + attempt.hints,
+        score: previous.score + LEARNING_RATE * (credit - previous.score),
+        lastPracticedAt: at,
+      }
+    : { skillId: attempt.skillId, attempts: 1, correct: attempt.correct ? 1 : 0, hints: attempt.hints, score: credit, lastPracticedAt: at };
+  return { ...record, skills: { ...record.skills, [attempt.skillId]: next } };
+}
+
+export async function getMastery(profileId: string): Promise<MasteryRecord> {
+  const record = await runRequest(MASTERY_STORE, 'readonly', store =>
+    store.get(profileId) as IDBRequest<MasteryRecord | undefined>);
+  return record ?? emptyRecord(profileId);
+}
+
+// Read-modify-write in one transaction so tool calls arriving close together never drop an attempt.
+export function recordSkillAttempt(profileId: string, attempt: SkillAttempt): Promise<MasteryRecord> {
+  let updated = emptyRecord(profileId);
+  return runRequest(MASTERY_STORE, 'readwrite', store => {
+    const request = store.get(profileId) as IDBRequest<MasteryRecord | undefined>;
+    request.onsuccess = () => {
+      updated = applyAttempt(request.result ?? emptyRecord(profileId), attempt);
+      store.put(updated);
+    };
+    return request;
+  }).then(() => updated);
+}
+
+/** Skills practiced often enough to judge whose score is still low, weakest first. */
+export function weakSkills(record: MasteryRecord): SkillMastery[] {
+  return Object.values(record.skills)
+    .filter(skill => skill.attempts >= MIN_ATTEMPTS_FOR_WEAKNESS && skill.score < WEAK_SCORE && findSkill(skill.skillId))
+    .sort((a, b) => a.score - b.score);
+}
+
+/** Tells the tutor what the student has struggled with before; empty when nothing stands out. */
+export function buildWeakAreasInstruction(record: MasteryRecord): string {
+  const weak = weakSkills(record).slice(0, MAX_WEAK_AREAS);
+  if (weak.length === 0) return '';
+  const names = weak.map(skill => findSkill(skill.skillId)!.name.toLowerCase()).join(', ');
+  return `From earlier sessions, this student still finds these skills hard: ${names}. When one of them comes up, slow down, check their understanding of the underlying idea and give them a chance to practice it, without telling them it is a weak area.`;
+}
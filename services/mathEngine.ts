@@ -0,0 +1,368 @@
+import { create, all, MathNode } from 'mathjs';
+
+// A small computer algebra layer over mathjs for checking the tutor's and the student's work.
+// Anything it cannot decide is reported as unverified rather than passed or failed.
+const math = create(all);
+
+export type StepVerdict = 'equivalent' | 'not-equivalent' | 'unverified';
+
+export interface StepCheck {
+  verdict: StepVerdict;
+  detail: string;
+}
+
+export interface Solution {
+  variable: string;
+  // Exact where possible ("7/3", "-2"), otherwise a decimal approximation prefixed with "≈".
+  // Numeric solving lists at most the few solutions closest to 0 in the scanned range.
+  solutions: string[];
+  // True when every real number solves the equation.
+  identity: boolean;
+  approximate: boolean;
+}
+
+export class MathInputError extends Error {}
+
+type Statement =
+  | { kind: 'expression'; node: MathNode }
+  | { kind: 'equation'; lhs: MathNode; rhs: MathNode };
+
+// Symbols mathjs already defines, so they are never treated as variables or graph parameters.
+export const MATH_CONSTANTS: ReadonlySet<string> = new Set(['pi', 'e', 'i', 'Infinity', 'NaN', 'tau', 'phi']);
+const SAMPLE_COUNT = 12;
+const MIN_VALID_SAMPLES = 4;
+const ROOT_TOLERANCE = 1e-7;
+const SCAN_RANGE = 100;
+const SCAN_STEPS = 20000;
+const MAX_FRACTION_DENOMINATOR = 1000;
+const MULTIVARIABLE_SAMPLES = 6;
+const MAX_LISTED_SOLUTIONS = 12;
+
+/** Turns calculator and simple LaTeX notation into something mathjs can parse. */
+export function normalizeMathInput(text: string): string {
+  return text
+    .replace(/[−–]/g, '-')
+    .replace(/[×·]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/\\cdot|\\times/g, '*')
+    .replace(/\\left|\\right/g, '')
+    .replace(/\\frac\{([^{}]*)\}\{([^{}]*)\}/g, '($1)/($2)')
+    .replace(/\\sqrt\{([^{}]*)\}/g, 'sqrt($1)')
+    .replace(/[{}]/g, match => (match === '{' ? '(' : ')'))
+    .replace(/\\/g, '')
+    .trim();
+}
+
+function parseNode(text: string): MathNode {
+  try {
+    return math.parse(text);
+  } catch (error) {
+    throw new MathInputError(`could not read "${text}": ${(error as Error).message}`);
+  }
+}
+
+function parseStatement(input: string): Statement {
+  const text = normalizeMathInput(input);
+  if (/[<>≤≥]|!=/.test(text)) throw new MathInputError('inequalities are not supported');
+  const sides = text.split('=');
+  if (sides.length > 2) throw new MathInputError(`"${input}" has more than one "="`);
+  if (sides.length === 2) return { kind: 'equation', lhs: parseNode(sides[0]), rhs: parseNode(sides[1]) };
+  return { kind: 'expression', node: parseNode(text) };
+}
+
+function variablesOf(...nodes: MathNode[]): string[] {
+  const functionNames = new Set<string>();
+  const names = new Set<string>();
+  nodes.forEach(node => node.traverse(child => {
+    if (math.isFunctionNode(child) && math.isSymbolNode(child.fn)) functionNames.add(child.fn.name);
+  }));
+  nodes.forEach(node => node.traverse(child => {
+    if (math.isSymbolNode(child) && !functionNames.has(child.name) && !MATH_CONSTANTS.has(child.name)) names.add(child.name);
+  }));
+  return [...names].sort();
+}
+
+const difference = (lhs: MathNode, rhs: MathNode) => new math.OperatorNode('-', 'subtract', [lhs, new math.ParenthesisNode(rhs)]);
+
+function substitute(node: MathNode, values: Record<string, number>): MathNode {
+  return node.transform(child =>
+    math.isSymbolNode(child) && child.name in values ? new math.ConstantNode(values[child.name]) : child);
+}
+
+// Evaluates to a real number, or null when the value is complex, infinite or undefined there.
+function evaluateReal(node: MathNode, scope: Record<string, number>): number | null {
+  try {
+    const value = node.compile().evaluate(scope);
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function randomScopes(variables: string[]): Record<string, number>[] {
+  // Non-integer points avoid accidental agreement at small integers, e.g. x^2 and 2x at x = 2.
+  return Array.from({ length: SAMPLE_COUNT }, () =>
+    Object.fromEntries(variables.map(name => [name, Math.round((Math.random() * 10 - 5) * 1000) / 1000 + 0.0137])));
+}
+
+const isClose = (a: number, b: number) => Math.abs(a - b) <= 1e-7 * Math.max(1, Math.abs(a), Math.abs(b));
+
+export function formatValue(value: number): string {
+  if (Math.abs(value) < ROOT_TOLERANCE) return '0';
+  if (Math.abs(value - Math.round(value)) < 1e-9) return String(Math.round(value));
+  for (let denominator = 2; denominator <= MAX_FRACTION_DENOMINATOR; denominator++) {
+    const numerator = value * denominator;
+    if (Math.abs(numerator - Math.round(numerator)) < 1e-7) return `${Math.round(numerator)}/${denominator}`;
+  }
+  return `≈${Number(value.toPrecision(8))}`;
+}
+
+const evaluatePolynomial = (coefficients: number[], x: number) =>
+  coefficients.reduceRight((sum, coefficient) => sum * x + coefficient, 0);
+
+const derivativeOf = (coefficients: number[]) => coefficients.slice(1).map((coefficient, i) => coefficient * (i + 1));
+
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  let fLow = f(low);
+  for (let i = 0; i < 200 && high - low > 1e-12 * Math.max(1, Math.abs(low)); i++) {
+    const mid = (low + high) / 2;
+    const fMid = f(mid);
+    if (fMid === 0) return mid;
+    if ((fMid < 0) === (fLow < 0)) {
+      low = mid;
+      fLow = fMid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Real roots of a polynomial given lowest power first. The polynomial is monotonic between
+ * consecutive roots of its derivative, so each of those intervals holds at most one root;
+ * repeated roots show up as critical points where the value is zero.
+ */
+export function polynomialRealRoots(coefficients: number[]): number[] {
+  const trimmed = [...coefficients];
+  while (trimmed.length > 0 && Math.abs(trimmed[trimmed.length - 1]) < 1e-12) trimmed.pop();
+  if (trimmed.length <= 1) return [];
+  if (trimmed.length === 2) return [-trimmed[0] / trimmed[1]];
+
+  const leading = trimmed[trimmed.length - 1];
+  const bound = 1 + Math.max(...trimmed.slice(0, -1).map(c => Math.abs(c / leading)));
+  const f = (x: number) => evaluatePolynomial(trimmed, x);
+  const scale = Math.max(...trimmed.map(Math.abs));
+  const points = [-bound, ...polynomialRealRoots(derivativeOf(trimmed)).filter(x => Math.abs(x) < bound), bound];
+
+  const roots: number[] = [];
+  points.forEach((point, i) => {
+    if (i > 0 && i < points.length - 1 && Math.abs(f(point)) <= 1e-9 * scale) roots.push(point);
+    const next = points[i + 1];
+    if (next !== undefined && f(point) * f(next) < 0) roots.push(bisect(f, point, next));
+  });
+  return dedupe(roots);
+}
+
+function dedupe(values: number[]): number[] {
+  return [...values].sort((a, b) => a - b).filter((value, i, sorted) => i === 0 || Math.abs(value - sorted[i - 1]) > 1e-6);
+}
+
+interface RootSet {
+  roots: number[];
+  identity: boolean;
+  approximate: boolean;
+}
+
+// Real solutions of `node = 0` in a single variable.
+function realRoots(node: MathNode, variable: string): RootSet {
+  const compiled = node.compile();
+  const f = (x: number) => {
+    try {
+      const value = compiled.evaluate({ [variable]: x });
+      return typeof value === 'number' ? value : NaN;
+    } catch {
+      return NaN;
+    }
+  };
+  // Roots of a rational function's numerator are only solutions where the function is defined.
+  const isDefinedRoot = (x: number) => Number.isFinite(f(x)) && Math.abs(f(x)) < 1e-6 * Math.max(1, Math.abs(x));
+
+  let coefficients: number[] | null = null;
+  try {
+    const rationalized = math.rationalize(node, {}, true) as unknown as { coefficients: unknown[] };
+    const numeric = rationalized.coefficients.map(Number);
+    if (numeric.length > 0 && numeric.every(Number.isFinite)) coefficients = numeric;
+  } catch {
+    // Not a rational function (e.g. sin or log); fall back to a numeric scan.
+  }
+
+  if (coefficients) {
+    if (coefficients.every(c => Math.abs(c) < 1e-12)) {
+      return { roots: [], identity: randomScopes([variable]).every(scope => isDefinedRoot(scope[variable])), approximate: false };
+    }
+    return { roots: polynomialRealRoots(coefficients).filter(isDefinedRoot), identity: false, approximate: false };
+  }
+
+  const roots: number[] = [];
+  const step = (2 * SCAN_RANGE) / SCAN_STEPS;
+  let previous = f(-SCAN_RANGE);
+  for (let i = 1; i <= SCAN_STEPS; i++) {
+    const x = -SCAN_RANGE + i * step;
+    const value = f(x);
+    if (value === 0) roots.push(x);
+    else if (Number.isFinite(previous) && Number.isFinite(value) && previous * value < 0) {
+      const root = bisect(f, x - step, x);
+      if (isDefinedRoot(root)) roots.push(root);
+    }
+    previous = value;
+  }
+  return { roots: dedupe(roots), identity: false, approximate: true };
+}
+
+// The `count` roots nearest 0, in increasing order. A periodic equation has dozens of roots in
+// the scanned range, and the ones near the origin are the ones a student is after.
+function nearestRoots(roots: number[], count = MAX_LISTED_SOLUTIONS): number[] {
+  return [...roots].sort((a, b) => Math.abs(a) - Math.abs(b)).slice(0, count).sort((a, b) => a - b);
+}
+
+// Names at most MAX_LISTED_SOLUTIONS roots so a periodic equation doesn't flood the tool response.
+function listRoots(variable: string, roots: number[], separator: string): string {
+  const listed = nearestRoots(roots).map(root => `${variable} = ${formatValue(root)}`).join(separator);
+  const more = roots.length - MAX_LISTED_SOLUTIONS;
+  return more > 0 ? `${listed} …and ${more} more` : listed;
+}
+
+function describeRoots(variable: string, set: RootSet): string {
+  if (set.identity) return 'every real number';
+  if (set.roots.length === 0) return 'no real solution';
+  return listRoots(variable, set.roots, ' or ');
+}
+
+/** Simplifies an expression, or both sides of an equation. */
+export function simplifyExpression(input: string): { result: string; latex: string } {
+  const statement = parseStatement(input);
+  if (statement.kind === 'expression') {
+    const simplified = math.simplify(statement.node);
+    return { result: simplified.toString(), latex: simplified.toTex() };
+  }
+  const lhs = math.simplify(statement.lhs);
+  const rhs = math.simplify(statement.rhs);
+  return { result: `${lhs.toString()} = ${rhs.toString()}`, latex: `${lhs.toTex()} = ${rhs.toTex()}` };
+}
+
+/** Solves an equation in one unknown over the reals. */
+export function solveEquation(input: string, variable?: string): Solution {
+  const statement = parseStatement(input);
+  const node = statement.kind === 'equation' ? difference(statement.lhs, statement.rhs) : statement.node;
+  const variables = variablesOf(node);
+  const unknown = variable ?? variables[0];
+  if (!unknown) throw new MathInputError('there is no unknown to solve for');
+  if (variables.some(name => name !== unknown)) {
+    throw new MathInputError(`can only solve equations in one unknown, found ${variables.join(', ')}`);
+  }
+  const set = realRoots(node, unknown);
+  return {
+    variable: unknown,
+    solutions: nearestRoots(set.roots).map(formatValue),
+    identity: set.identity,
+    approximate: set.approximate,
+  };
+}
+
+function compareExpressions(a: MathNode, b: MathNode): StepCheck {
+  const diff = difference(a, b);
+  const samples = randomScopes(variablesOf(a, b))
+    .map(scope => ({ left: evaluateReal(a, scope), right: evaluateReal(b, scope), diff: evaluateReal(diff, scope) }))
+    .filter(sample => sample.left !== null && sample.right !== null && sample.diff !== null);
+  if (samples.length < MIN_VALID_SAMPLES) return { verdict: 'unverified', detail: 'the expressions could not be evaluated at enough points' };
+  const differs = samples.find(sample => !isClose(sample.left!, sample.right!));
+  return differs
+    ? { verdict: 'not-equivalent', detail: 'the two expressions take different values' }
+    : { verdict: 'equivalent', detail: 'the two expressions are equal for every value tried' };
+}
+
+// Parses "x = 2 or x = -3" style answers into the values they name, or null for anything else.
+function parseSolutionList(input: string): { variable: string; values: number[] } | null {
+  const parts = normalizeMathInput(input).split(/\s+or\s+|,|;/).map(part => part.trim()).filter(Boolean);
+  if (parts.length < 2) return null;
+  let variable: string | null = null;
+  const values: number[] = [];
+  for (const part of parts) {
+    const match = /^([a-zA-Z]\w*)\s*=\s*(.+)$/.exec(part);
+    if (!match || (variable && match[1] !== variable)) return null;
+    variable = match[1];
+    const value = evaluateReal(parseNode(match[2]), {});
+    if (value === null) return null;
+    values.push(value);
+  }
+  return variable ? { variable, values } : null;
+}
+
+function compareRootSets(variable: string, from: RootSet, to: RootSet): StepCheck {
+  const fromText = describeRoots(variable, from);
+  const toText = describeRoots(variable, to);
+  const approximate = from.approximate || to.approximate;
+  const qualifier = approximate ? ` (numerically, for ${variable} between -${SCAN_RANGE} and ${SCAN_RANGE})` : '';
+  if (from.identity !== to.identity) {
+    return { verdict: 'not-equivalent', detail: `the first has ${fromText} as solutions, the second ${toText}` };
+  }
+  const lost = from.roots.filter(root => !to.roots.some(other => isClose(root, other)));
+  const gained = to.roots.filter(root => !from.roots.some(other => isClose(root, other)));
+  if (lost.length === 0 && gained.length === 0) {
+    return { verdict: approximate ? 'unverified' : 'equivalent', detail: `both have ${fromText}${qualifier}` };
+  }
+  const problems = [
+    ...(lost.length > 0 ? [`loses ${listRoots(variable, lost, ', ')}`] : []),
+    ...(gained.length > 0 ? [`adds ${listRoots(variable, gained, ', ')}`] : []),
+  ];
+  return { verdict: 'not-equivalent', detail: `the step ${problems.join(' and ')}; the first line has ${fromText}${qualifier}` };
+}
+
+/**
+ * Checks whether `to` follows from `from` as an equivalent rewrite: equal expressions, or
+ * equations with the same real solutions. `to` may also list solutions ("x = 2 or x = -2").
+ */
+export function checkStep(from: string, to: string): StepCheck {
+  const first = parseStatement(from);
+  const solutionList = first.kind === 'equation' ? parseSolutionList(to) : null;
+  if (first.kind === 'equation' && solutionList) {
+    const node = difference(first.lhs, first.rhs);
+    if (variablesOf(node).some(name => name !== solutionList.variable)) {
+      return { verdict: 'unverified', detail: 'the equation has other unknowns besides the one solved for' };
+    }
+    return compareRootSets(solutionList.variable, realRoots(node, solutionList.variable), {
+      roots: dedupe(solutionList.values),
+      identity: false,
+      approximate: false,
+    });
+  }
+
+  const second = parseStatement(to);
+  if (first.kind === 'expression' && second.kind === 'expression') return compareExpressions(first.node, second.node);
+  if (first.kind !== 'equation' || second.kind !== 'equation') {
+    return { verdict: 'unverified', detail: 'one line is an equation and the other is an expression' };
+  }
+
+  const fromNode = difference(first.lhs, first.rhs);
+  const toNode = difference(second.lhs, second.rhs);
+  const variables = variablesOf(fromNode, toNode);
+  if (variables.length === 1) {
+    return compareRootSets(variables[0], realRoots(fromNode, variables[0]), realRoots(toNode, variables[0]));
+  }
+
+  // With several unknowns, fix all but one at random values and compare the solutions for the
+  // last one. A single disagreement is a counterexample; agreement everywhere is strong evidence.
+  const [solveFor, ...others] = [...variables].reverse();
+  for (const scope of randomScopes(others).slice(0, MULTIVARIABLE_SAMPLES)) {
+    const fromRoots = realRoots(substitute(fromNode, scope), solveFor);
+    const toRoots = realRoots(substitute(toNode, scope), solveFor);
+    const check = compareRootSets(solveFor, fromRoots, toRoots);
+    if (check.verdict === 'unverified') return { verdict: 'unverified', detail: 'the equations could not be solved exactly' };
+    if (check.verdict === 'not-equivalent') {
+      const at = others.map(name => `${name} = ${formatValue(scope[name])}`).join(', ');
+      return { verdict: 'not-equivalent', detail: `with ${at}, ${check.detail}` };
+    }
+  }
+  return { verdict: 'equivalent', detail: 'the equations have the same solutions for every value tried' };
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeMathMarkup } from './mathFormat';
+
+describe('normalizeMathMarkup', () => {
+  it('wraps bare expressions', () => {
+    expect(normalizeMathMarkup('Solve x^2 + 3x - 4 = 0 first.')).toBe('Solve $x^2 + 3x - 4 = 0$ first.');
+    expect(normalizeMathMarkup('So 2 + 2 = 4.')).toBe('So $2 + 2 = 4$.');
+    expect(normalizeMathMarkup('Try y - 1 next')).toBe('Try $y - 1$ next');
+  });
+
+  it('leaves delimited math alone', () => {
+    expect(normalizeMathMarkup('We get $x = 2$ and $$y = 3$$')).toBe('We get $x = 2$ and $$y = 3$$');
+  });
+
+  it.each(['Page 3-4', 'Between 2023 - 2024 it grew.', 'I = 3 apples'])('leaves "%s" as text', (text) => {
+    expect(normalizeMathMarkup(text)).toBe(text);
+  });
+});
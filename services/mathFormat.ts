@@ -0,0 +1,88 @@
+export type MathSegment =
+  | { type: 'text'; value: string }
+  | { type: 'inline'; value: string }
+  | { type: 'display'; value: string };
+
+// `$$...$$` and `\[...\]` are display math; `\(...\)` and `$...$` are inline. An inline `$`
+// pair must hug its content and not be followed by a digit, so prices like "$5 and $10" stay text.
+const MATH_DELIMITERS = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$(?!\s)((?:\\\$|[^$\n])+?)(?<!\s)\$(?!\d)/g;
+
+export function splitMath(text: string): MathSegment[] {
+  const segments: MathSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(MATH_DELIMITERS)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ type: 'text', value: text.slice(lastIndex, index) });
+    const display = match[1] ?? match[2];
+    if (display !== undefined) {
+      segments.push({ type: 'display', value: display.trim() });
+    } else {
+      segments.push({ type: 'inline', value: (match[3] ?? match[4]).trim() });
+    }
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ type: 'text', value: text.slice(lastIndex) });
+  return segments;
+}
+
+const SYMBOL_REPLACEMENTS: [RegExp, string][] = [
+  [/×/g, '\\times '],
+  [/÷/g, '\\div '],
+  [/≤/g, '\\le '],
+  [/≥/g, '\\ge '],
+  [/≠/g, '\\ne '],
+  [/π/g, '\\pi '],
+  [/√\s*\(([^()]*)\)/g, '\\sqrt{$1}'],
+  [/√\s*([A-Za-z0-9]+)/g, '\\sqrt{$1}'],
+  [/\bsqrt\s*\(([^()]*)\)/g, '\\sqrt{$1}'],
+  // Exponents longer than one character need braces, e.g. x^10 or x^(n+1).
+  [/\^\(([^()]*)\)/g, '^{$1}'],
+  [/\^(\d{2,}|[A-Za-z]{2,})/g, '^{$1}'],
+];
+
+const MATH_TOKEN = String.raw`(?:\\[A-Za-z]+(?:\{[^{}]*\})*|(?<![A-Za-z0-9.])\d+(?:\.\d+)?(?:[A-Za-z](?![A-Za-z0-9]))?(?![A-Za-z0-9])|(?<![A-Za-z\\])[A-Za-z](?![A-Za-z])|\{[^{}]*\}|[()]|[-+*/=<>^])`;
+const MATH_RUN = new RegExp(`${MATH_TOKEN}(?:[ \\t]*${MATH_TOKEN})*`, 'g');
+
+// A lone letter other than the English words "I" and "a".
+const VARIABLE = String.raw`(?<![A-Za-z])(?![IaA](?![A-Za-z]))[A-Za-z](?![A-Za-z])`;
+const OPERAND_END = String.raw`(?:\d|${VARIABLE}|[)}])`;
+const OPERAND_START = String.raw`(?:\d|${VARIABLE}|[({\\])`;
+const VARIABLE_OPERATION = new RegExp(
+  String.raw`${VARIABLE}\s*[-+*/=<>^]\s*${OPERAND_START}|${OPERAND_END}\s*[-+*/=<>^]\s*${VARIABLE}`,
+);
+const RELATION = new RegExp(String.raw`${OPERAND_END}\s*[=<>^]\s*${OPERAND_START}`);
+
+// A run is only worth typesetting with real math context: a LaTeX command, a variable in an
+// operation, or a relation or power between operands. Ranges like "3-4" or "2023 - 2024" stay text.
+function looksLikeMath(run: string): boolean {
+  if (/\\[A-Za-z]/.test(run)) return true;
+  return VARIABLE_OPERATION.test(run) || RELATION.test(run);
+}
+
+function normalizePlainText(text: string): string {
+  let result = text;
+  for (const [pattern, replacement] of SYMBOL_REPLACEMENTS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result.replace(MATH_RUN, (run) => {
+    const trimmed = run.trim();
+    if (!looksLikeMath(trimmed)) return run;
+    const latex = trimmed.replace(/\s*\*\s*/g, ' \\cdot ');
+    return run.replace(trimmed, `$${latex}$`);
+  });
+}
+
+/**
+ * Rewrites tutor transcription so bare expressions such as `x^2 + 3x - 4 = 0` or
+ * `\frac{a}{b}` are wrapped in `$...$`. Text that is already delimited is left untouched.
+ * Only applied for display; transcripts keep the text as it was spoken.
+ */
+export function normalizeMathMarkup(text: string): string {
+  return splitMath(text)
+    .map(segment => {
+      if (segment.type === 'text') return normalizePlainText(segment.value);
+      if (segment.type === 'display') return `$$${segment.value}$$`;
+      return `$${segment.value}$`;
+    })
+    .join('');
+}
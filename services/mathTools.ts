@@ -0,0 +1,108 @@
+import { FunctionCall, FunctionDeclaration, Type } from '@google/genai';
+import { MathCheck } from '../types';
+import { MathInputError, checkStep, simplifyExpression, solveEquation } from './mathEngine';
+
+const MAX_INPUT_LENGTH = 300;
+
+export const MATH_CHECK_INSTRUCTION = `You have a computer algebra engine. Before you tell the student a step is right or wrong, call check_step with their previous line and their new line, and base your reply on its verdict rather than on your own mental math. Use solve_equation and simplify_expression to check any result you are about to state or hint at. Write math for these tools in plain calculator notation such as 3x^2 - 2(x+1) = 7 or sqrt(2)/2, not LaTeX. If a tool says "unverified", rely on careful reasoning and say so if you are unsure. Do not mention the tools to the student.`;
+
+export const MATH_FUNCTIONS: FunctionDeclaration[] = [
+  {
+    name: 'check_step',
+    description: 'Check whether one line of work follows from the previous one: equal expressions, or equations with exactly the same real solutions. The second line may also be a list of solutions like "x = 2 or x = -2".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        from: { type: Type.STRING, description: 'The earlier line, e.g. 2x + 3 = 7.' },
+        to: { type: Type.STRING, description: 'The line that should follow from it, e.g. 2x = 4.' },
+      },
+      required: ['from', 'to'],
+    },
+  },
+  {
+    name: 'solve_equation',
+    description: 'Find the real solutions of an equation in one unknown.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        equation: { type: Type.STRING, description: 'The equation, e.g. x^2 - 5x + 6 = 0.' },
+        variable: { type: Type.STRING, description: 'The unknown to solve for, if not obvious.' },
+      },
+      required: ['equation'],
+    },
+  },
+  {
+    name: 'simplify_expression',
+    description: 'Simplify an expression, or both sides of an equation.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        expression: { type: Type.STRING, description: 'The expression, e.g. (x^2 - 1)/(x - 1).' },
+      },
+      required: ['expression'],
+    },
+  },
+];
+
+export const isMathCall = (call: FunctionCall) =>
+  MATH_FUNCTIONS.some(declaration => declaration.name === call.name);
+
+const readInput = (value: unknown, name: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new MathInputError(`${name} is required`);
+  if (value.length > MAX_INPUT_LENGTH) throw new MathInputError(`${name} is too long`);
+  return value.trim();
+};
+
+/**
+ * Runs a math tool call. `check` is what gets recorded on the transcript; it is missing
+ * when the call could not be run at all, in which case `response` carries the error.
+ */
+export function runMathCall(call: FunctionCall): { response: Record<string, unknown>; check?: MathCheck } {
+  const args = call.args ?? {};
+  try {
+    switch (call.name) {
+      case 'check_step': {
+        const from = readInput(args.from, 'from');
+        const to = readInput(args.to, 'to');
+        const result = checkStep(from, to);
+        const verdict = result.verdict === 'equivalent' ? 'verified' : result.verdict === 'not-equivalent' ? 'refuted' : 'unverified';
+        return {
+          response: { verdict: result.verdict, detail: result.detail },
+          check: { tool: 'check_step', input: `${from} → ${to}`, result: result.detail, verdict },
+        };
+      }
+      case 'solve_equation': {
+        const equation = readInput(args.equation, 'equation');
+        const solution = solveEquation(equation, typeof args.variable === 'string' && args.variable.trim() ? args.variable.trim() : undefined);
+        const result = solution.identity
+          ? 'every real number is a solution'
+          : solution.solutions.length === 0
+            ? 'no real solution'
+            : solution.solutions.map(value => `${solution.variable} = ${value}`).join(' or ');
+        return {
+          response: {
+            variable: solution.variable,
+            solutions: solution.solutions,
+            identity: solution.identity,
+            ...(solution.approximate && { note: `solved numerically for ${solution.variable} between -100 and 100, listing the solutions closest to 0; there may be others` }),
+          },
+          check: { tool: 'solve', input: equation, result, verdict: solution.approximate ? 'unverified' : 'verified' },
+        };
+      }
+      case 'simplify_expression': {
+        const expression = readInput(args.expression, 'expression');
+        const { result, latex } = simplifyExpression(expression);
+        return {
+          response: { result, latex },
+          check: { tool: 'simplify', input: expression, result, verdict: 'computed' },
+        };
+      }
+      default:
+        return { response: { error: `unknown function ${call.name}` } };
+    }
+  } catch (error) {
+    if (error instanceof MathInputError) return { response: { error: error.message } };
+    console.error('Math engine failed:', error);
+    return { response: { error: 'the math engine could not handle this input' } };
+  }
+}
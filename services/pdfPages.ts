@@ -0,0 +1,44 @@
+/// <reference types="vite/client" />
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { MAX_IMAGE_DIMENSION } from './imageProcessing';
+
+// Pages are rendered with headroom over the send size so problems cropped from them stay sharp.
+const PAGE_RENDER_DIMENSION = MAX_IMAGE_DIMENSION * 2;
+export const MAX_PDF_PAGES = 20;
+
+/**
+ * Renders the pages of a PDF to JPEG data URLs entirely in the browser. pdf.js is loaded on
+ * first use so it doesn't weigh down the initial bundle.
+ */
+export async function renderPdfPages(file: File, maxPages = MAX_PDF_PAGES): Promise<string[]> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  const document = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= Math.min(document.numPages, maxPages); number++) {
+      const page = await document.getPage(number);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: PAGE_RENDER_DIMENSION / Math.max(base.width, base.height) });
+      const canvas = window.document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      pages.push(canvas.toDataURL('image/jpeg', 0.92));
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await document.destroy();
+  }
+}
+
+export function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
@@ -0,0 +1,89 @@
+import { FunctionCall, FunctionDeclaration, Type } from '@google/genai';
+import { ProblemBoardState, SolutionStep, StepStatus } from '../types';
+
+export const EMPTY_PROBLEM_BOARD: ProblemBoardState = { image: null, steps: [] };
+
+const STEP_STATUSES: StepStatus[] = ['pending', 'active', 'done'];
+
+export const PROBLEM_BOARD_INSTRUCTION = `The student sees a problem board next to the conversation with a checklist of solution steps. When the student shares a new problem, call set_solution_steps with a short plan of 2 to 6 steps written as goals, not answers (for example "Factor the quadratic", not "x = 3"). As the student works, call update_solution_step to mark the step they are on as active and finished steps as done. Use add_solution_step if the plan needs another step. Do not read the tool calls aloud.`;
+
+export const PROBLEM_BOARD_FUNCTIONS: FunctionDeclaration[] = [
+  {
+    name: 'set_solution_steps',
+    description: 'Replace the checklist of solution steps for the current problem. The first step becomes active.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        steps: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: 'Short descriptions of each step, in order. Describe the goal of the step without revealing its result.',
+        },
+      },
+      required: ['steps'],
+    },
+  },
+  {
+    name: 'update_solution_step',
+    description: 'Change the status of one step on the checklist.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        step_number: { type: Type.INTEGER, description: 'The 1-based number of the step.' },
+        status: { type: Type.STRING, enum: STEP_STATUSES, description: 'pending, active (the student is working on it) or done.' },
+      },
+      required: ['step_number', 'status'],
+    },
+  },
+  {
+    name: 'add_solution_step',
+    description: 'Append a step to the end of the checklist.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: 'Short description of the step.' },
+      },
+      required: ['text'],
+    },
+  },
+];
+
+export const isProblemBoardCall = (call: FunctionCall) =>
+  PROBLEM_BOARD_FUNCTIONS.some(declaration => declaration.name === call.name);
+
+/**
+ * Applies one of the problem board function calls. Returns the new board and the response
+ * to send back to the model; invalid arguments leave the board unchanged and report an error.
+ */
+export function applyProblemBoardCall(
+  board: ProblemBoardState,
+  call: FunctionCall,
+): { board: ProblemBoardState; response: Record<string, unknown> } {
+  const args = call.args ?? {};
+  switch (call.name) {
+    case 'set_solution_steps': {
+      const texts = Array.isArray(args.steps) ? args.steps.filter((s): s is string => typeof s === 'string' && s.trim() !== '') : [];
+      if (texts.length === 0) return { board, response: { error: 'steps must be a non-empty list of strings' } };
+      const steps: SolutionStep[] = texts.map((text, i) => ({ text: text.trim(), status: i === 0 ? 'active' : 'pending' }));
+      return { board: { ...board, steps }, response: { result: 'ok', step_count: steps.length } };
+    }
+    case 'update_solution_step': {
+      const index = Number(args.step_number) - 1;
+      const status = args.status as StepStatus;
+      if (!Number.isInteger(index) || index < 0 || index >= board.steps.length) {
+        return { board, response: { error: `step_number must be between 1 and ${board.steps.length}` } };
+      }
+      if (!STEP_STATUSES.includes(status)) return { board, response: { error: 'unknown status' } };
+      const steps = board.steps.map((step, i) => (i === index ? { ...step, status } : step));
+      return { board: { ...board, steps }, response: { result: 'ok' } };
+    }
+    case 'add_solution_step': {
+      const text = typeof args.text === 'string' ? args.text.trim() : '';
+      if (!text) return { board, response: { error: 'text is required' } };
+      const steps: SolutionStep[] = [...board.steps, { text, status: board.steps.length === 0 ? 'active' : 'pending' }];
+      return { board: { ...board, steps }, response: { result: 'ok', step_number: steps.length } };
+    }
+    default:
+      return { board, response: { error: `unknown function ${call.name}` } };
+  }
+}
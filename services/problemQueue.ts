@@ -0,0 +1,41 @@
+import { QueuedProblem } from '../types';
+import { createId } from './db';
+
+export interface WorksheetPage {
+  image: string;
+  // Human-readable origin, e.g. "page 2 of algebra.pdf" or "photo.jpg".
+  source: string;
+}
+
+export function createQueuedProblem(image: string, source: string, position: number): QueuedProblem {
+  return { id: createId(), label: `Problem ${position}`, source, image, status: 'pending' };
+}
+
+/** Numbers problems by their position so labels stay in order after removals. */
+export function relabelProblems(problems: QueuedProblem[]): QueuedProblem[] {
+  return problems.map((problem, i) => ({ ...problem, label: `Problem ${i + 1}` }));
+}
+
+/**
+ * Makes `id` the active problem. With `finishCurrent` the previously active problem is marked
+ * done; otherwise it goes back to pending (the student jumped away before finishing it).
+ */
+export function activateProblem(queue: QueuedProblem[], id: string, finishCurrent: boolean): QueuedProblem[] {
+  return queue.map(problem => {
+    if (problem.id === id) return { ...problem, status: 'active' };
+    if (problem.status === 'active') return { ...problem, status: finishCurrent ? 'done' : 'pending' };
+    return problem;
+  });
+}
+
+/** The first pending problem after the active one, wrapping round to any earlier one skipped. */
+export function findNextProblem(queue: QueuedProblem[]): QueuedProblem | undefined {
+  const activeIndex = queue.findIndex(problem => problem.status === 'active');
+  const ordered = [...queue.slice(activeIndex + 1), ...queue.slice(0, Math.max(activeIndex, 0))];
+  return ordered.find(problem => problem.status === 'pending');
+}
+
+export function buildProblemPrompt(problem: QueuedProblem, queue: QueuedProblem[]): string {
+  const position = queue.findIndex(p => p.id === problem.id) + 1;
+  return `We're now working on problem ${position} of ${queue.length} from my worksheet (${problem.source}). It's in the attached image. Please treat it as a new problem and help me get started.`;
+}
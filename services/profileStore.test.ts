@@ -0,0 +1,25 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { Profile } from '../types';
+import { DEFAULT_SETTINGS, setRevealLocked, updateProfileSettings } from './profileStore';
+
+const student: Profile = {
+  id: 'student-1',
+  name: 'Ada',
+  role: 'student',
+  createdAt: 0,
+  settings: DEFAULT_SETTINGS,
+};
+
+describe('updateProfileSettings', () => {
+  it('cannot clear a reveal lock the supervisor set', async () => {
+    await setRevealLocked(student, true);
+
+    // The student's copy predates the lock and its form still carries the old value.
+    const staleDraft = { ...student.settings, voiceName: 'Puck' };
+    const saved = await updateProfileSettings(student, staleDraft);
+
+    expect(saved.settings.voiceName).toBe('Puck');
+    expect(saved.settings.revealLocked).toBe(true);
+  });
+});
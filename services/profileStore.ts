@@ -0,0 +1,74 @@
+import { Profile, ProfileRole, ProfileSettings, PublicProfile, StudentSettings } from '../types';
+import { PROFILES_STORE, runRequest } from './db';
+import { claimUnownedSessions } from './sessionStore';
+import { fetchProfiles, registerProfile, signInProfile } from './tutorApi';
+
+export const DEFAULT_SETTINGS: ProfileSettings = {
+  textOnly: false,
+  gradeBand: 'high',
+  subject: 'general',
+  hintStrictness: 'socratic',
+  language: 'English',
+  voiceName: 'Zephyr',
+  dockedWhiteboard: false,
+  cameraFrameRate: 1,
+  cameraResolution: 768,
+  revealLocked: false,
+};
+
+// Identities and PINs live on the server; settings are kept per profile in this browser.
+interface LocalProfileRecord {
+  id: string;
+  settings: Partial<ProfileSettings>;
+}
+
+async function readLocalSettings(profileId: string): Promise<Partial<ProfileSettings>> {
+  const local = await runRequest(PROFILES_STORE, 'readonly', store =>
+    store.get(profileId) as IDBRequest<LocalProfileRecord | undefined>);
+  return local?.settings ?? {};
+}
+
+async function withLocalSettings(profile: PublicProfile): Promise<Profile> {
+  return { ...profile, settings: { ...DEFAULT_SETTINGS, ...(await readLocalSettings(profile.id)) } };
+}
+
+export async function listProfiles(): Promise<Profile[]> {
+  const profiles = await fetchProfiles();
+  return Promise.all(profiles.sort((a, b) => a.name.localeCompare(b.name)).map(withLocalSettings));
+}
+
+export async function createProfile(
+  name: string,
+  role: ProfileRole,
+  pin: string,
+  authToken?: string | null,
+): Promise<{ profile: Profile; token?: string }> {
+  const knownProfileIds = (await fetchProfiles()).map(p => p.id);
+  const { profile, token } = await registerProfile(name, role, pin, authToken);
+  if (knownProfileIds.length === 0) await claimUnownedSessions(profile.id, knownProfileIds);
+  return { profile: await withLocalSettings(profile), token };
+}
+
+export async function signIn(profileId: string, pin: string): Promise<{ profile: Profile; token: string }> {
+  const { profile, token } = await signInProfile(profileId, pin);
+  return { profile: await withLocalSettings(profile), token };
+}
+
+// Merges over what is stored now rather than the caller's copy, which may predate a supervisor's change.
+async function writeLocalSettings(profile: Profile, settings: Partial<ProfileSettings>): Promise<Profile> {
+  const merged: ProfileSettings = { ...DEFAULT_SETTINGS, ...profile.settings, ...(await readLocalSettings(profile.id)), ...settings };
+  const record: LocalProfileRecord = { id: profile.id, settings: merged };
+  await runRequest(PROFILES_STORE, 'readwrite', store => store.put(record));
+  return { ...profile, settings: merged };
+}
+
+/** Saves the profile's own settings. Supervisor-only settings are never written from here. */
+export function updateProfileSettings(profile: Profile, settings: Partial<StudentSettings>): Promise<Profile> {
+  const { revealLocked: _ignored, ...editable } = settings as Partial<ProfileSettings>;
+  return writeLocalSettings(profile, editable);
+}
+
+/** Locks or unlocks "reveal solution" for a profile; only the supervisor dashboard calls this. */
+export function setRevealLocked(profile: Profile, revealLocked: boolean): Promise<Profile> {
+  return writeLocalSettings(profile, { revealLocked });
+}
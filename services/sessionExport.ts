@@ -0,0 +1,154 @@
+import katex from 'katex';
+import { SessionRecord, SessionSummary, Speaker, TranscriptEntry } from '../types';
+import { normalizeMathMarkup, splitMath } from './mathFormat';
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf';
+
+const speakerName = (entry: TranscriptEntry) => (entry.speaker === Speaker.USER ? 'Student' : 'Tutor');
+
+function problemLabel(session: SessionRecord, entry: TranscriptEntry): string {
+  return session.problems?.find(problem => problem.id === entry.problemId)?.label ?? 'Worksheet problem';
+}
+
+// Yields each entry along with the problem heading to print before it, if it starts a new problem.
+function withProblemHeadings(session: SessionRecord): { entry: TranscriptEntry; heading: string | null }[] {
+  return session.transcript.map((entry, i) => ({
+    entry,
+    heading: entry.problemId && entry.problemId !== session.transcript[i - 1]?.problemId ? problemLabel(session, entry) : null,
+  }));
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export function exportFileName(session: SessionRecord, extension: string): string {
+  const slug = session.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session';
+  return `${slug}.${extension}`;
+}
+
+/** Markdown study notes. Math stays as `$...$`, which most Markdown viewers render. */
+export function sessionToMarkdown(session: SessionRecord, summary?: SessionSummary | null): string {
+  const lines: string[] = [`# ${session.title}`, '', `_${formatDate(session.startedAt)}_`, ''];
+
+  if (summary) {
+    lines.push('## Summary', '', summary.overview, '');
+    if (summary.keyConcepts.length > 0) {
+      lines.push('### Key concepts', '', ...summary.keyConcepts.map(item => `- ${item}`), '');
+    }
+    if (summary.mistakes.length > 0) {
+      lines.push('### Mistakes to review', '', ...summary.mistakes.map(item => `- ${item}`), '');
+    }
+  }
+
+  lines.push('## Transcript', '');
+  for (const { entry, heading } of withProblemHeadings(session)) {
+    if (heading) lines.push(`### ${heading}`, '');
+    if (entry.image) lines.push(`**${speakerName(entry)}** shared an image:`, '', `![${speakerName(entry)} image](${entry.image})`, '');
+    if (entry.text) lines.push(`**${speakerName(entry)}:** ${entry.text}`, '');
+  }
+  return lines.join('\n');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// MathML output needs no stylesheet or fonts, so the exported file stands on its own.
+function mathTextToHtml(text: string): string {
+  return splitMath(text)
+    .map(segment => {
+      if (segment.type === 'text') return escapeHtml(segment.value).replace(/\n/g, '<br>');
+      try {
+        return katex.renderToString(segment.value, { displayMode: segment.type === 'display', throwOnError: true, output: 'mathml' });
+      } catch {
+        return `<code>${escapeHtml(segment.value)}</code>`;
+      }
+    })
+    .join('');
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111827; line-height: 1.5; }
+  h1 { margin-bottom: 0; }
+  .date { color: #6b7280; margin-top: 0.25rem; }
+  .summary { background: #eff6ff; border: 1px solid #bfdbfe; border-radius: 0.5rem; padding: 0.5rem 1rem; }
+  .problem { border-top: 1px solid #d1d5db; padding-top: 0.5rem; color: #4b5563; }
+  .entry { margin: 0.75rem 0; break-inside: avoid; }
+  .speaker { font-weight: 600; }
+  .student .speaker { color: #047857; }
+  .tutor .speaker { color: #1d4ed8; }
+  img { display: block; max-width: 100%; max-height: 24rem; margin: 0.5rem 0; border: 1px solid #d1d5db; border-radius: 0.375rem; }
+  math[display="block"] { margin: 0.5rem 0; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+/** A standalone HTML document with images inlined and math rendered as MathML. */
+export function sessionToHtml(session: SessionRecord, summary?: SessionSummary | null): string {
+  const parts: string[] = [
+    `<h1>${escapeHtml(session.title)}</h1>`,
+    `<p class="date">${escapeHtml(formatDate(session.startedAt))}</p>`,
+  ];
+
+  if (summary) {
+    parts.push('<section class="summary">', '<h2>Summary</h2>', `<p>${mathTextToHtml(summary.overview)}</p>`);
+    if (summary.keyConcepts.length > 0) {
+      parts.push('<h3>Key concepts</h3>', `<ul>${summary.keyConcepts.map(item => `<li>${mathTextToHtml(item)}</li>`).join('')}</ul>`);
+    }
+    if (summary.mistakes.length > 0) {
+      parts.push('<h3>Mistakes to review</h3>', `<ul>${summary.mistakes.map(item => `<li>${mathTextToHtml(item)}</li>`).join('')}</ul>`);
+    }
+    parts.push('</section>');
+  }
+
+  parts.push('<h2>Transcript</h2>');
+  for (const { entry, heading } of withProblemHeadings(session)) {
+    if (heading) parts.push(`<h3 class="problem">${escapeHtml(heading)}</h3>`);
+    const speakerClass = entry.speaker === Speaker.USER ? 'student' : 'tutor';
+    parts.push(
+      `<div class="entry ${speakerClass}">`,
+      `<span class="speaker">${speakerName(entry)}:</span> ${entry.text ? mathTextToHtml(entry.speaker === Speaker.TUTOR ? normalizeMathMarkup(entry.text) : entry.text) : ''}`,
+      entry.image ? `<img src="${entry.image}" alt="${speakerName(entry)} image">` : '',
+      '</div>',
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(session.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${parts.join('\n')}
+</body>
+</html>`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Opens the browser's print dialog for an HTML document, where the student can choose
+ * "Save as PDF". A hidden iframe keeps the app itself out of the printout.
+ */
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const printWindow = frame.contentWindow;
+    if (!printWindow) return;
+    printWindow.addEventListener('afterprint', () => frame.remove());
+    printWindow.focus();
+    printWindow.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
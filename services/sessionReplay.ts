@@ -0,0 +1,66 @@
+import { Content, Part } from '@google/genai';
+import { Speaker, TranscriptEntry } from '../types';
+
+// Older turns are dropped so the replayed context stays well inside the Live API's window.
+const MAX_REPLAYED_ENTRIES = 40;
+
+export const RESUME_PROMPT = `We are continuing a tutoring session from earlier. The conversation above is what we covered so far. Briefly recap the problem and where I got stuck, then ask me one guiding question so we can pick up from there. Do not start the problem over.`;
+
+export const RECONNECT_PROMPT = `We were briefly disconnected. The conversation above is what we covered so far. Continue from exactly where we left off without recapping the whole problem.`;
+
+// Splits a `data:<mime>;base64,<data>` URL into the pieces the API expects.
+export function parseDataUrl(dataUrl: string): { mimeType: string; data: string } | null {
+  const match = /^data:([^;,]+);base64,(.+)$/.exec(dataUrl);
+  if (!match) return null;
+  return { mimeType: match[1], data: match[2] };
+}
+
+/**
+ * Converts a stored transcript into `Content` turns for `sendClientContent`, so a new
+ * Live connection starts with the prior conversation. Only the most recent problem image
+ * is sent; earlier images are replaced by a short placeholder. `prompt` closes the replay and
+ * tells the tutor how to carry on.
+ */
+export function buildResumeTurns(transcript: TranscriptEntry[], prompt: string = RESUME_PROMPT): Content[] {
+  const entries = transcript.slice(-MAX_REPLAYED_ENTRIES);
+  let lastImageIndex = -1;
+  for (let i = transcript.length - 1; i >= 0; i--) {
+    if (transcript[i].image) {
+      lastImageIndex = i;
+      break;
+    }
+  }
+  const offset = transcript.length - entries.length;
+
+  const turns: Content[] = [];
+  entries.forEach((entry, i) => {
+    const parts: Part[] = [];
+    if (entry.image) {
+      const image = offset + i === lastImageIndex ? parseDataUrl(entry.image) : null;
+      if (image) {
+        parts.push({ inlineData: image });
+      } else {
+        parts.push({ text: '[An earlier image of my work]' });
+      }
+    }
+    if (entry.text) parts.push({ text: entry.text });
+    if (parts.length === 0) return;
+
+    const role = entry.speaker === Speaker.USER ? 'user' : 'model';
+    const previous = turns[turns.length - 1];
+    if (previous?.role === role) {
+      previous.parts!.push(...parts);
+    } else {
+      turns.push({ role, parts });
+    }
+  });
+
+  // The last problem image must survive even if it fell outside the replay window.
+  if (lastImageIndex >= 0 && lastImageIndex < offset) {
+    const image = parseDataUrl(transcript[lastImageIndex].image!);
+    if (image) turns.unshift({ role: 'user', parts: [{ text: 'Here is the problem I was working on.' }, { inlineData: image }] });
+  }
+
+  turns.push({ role: 'user', parts: [{ text: prompt }] });
+  return turns;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { sessionActiveMs, sessionSittings } from './sessionStore';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('sessionActiveMs', () => {
+  it('sums the sittings and leaves out the time between them', () => {
+    const session = {
+      startedAt: 0,
+      endedAt: 26 * HOUR,
+      sittings: [{ start: 0, end: HOUR / 2 }, { start: 25 * HOUR, end: 26 * HOUR }],
+    };
+    expect(sessionActiveMs(session)).toBe(1.5 * HOUR);
+  });
+
+  it('treats a record without sittings as one sitting', () => {
+    expect(sessionSittings({ startedAt: 1000, endedAt: 5000 })).toEqual([{ start: 1000, end: 5000 }]);
+    expect(sessionActiveMs({ startedAt: 1000, endedAt: null })).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+import { SessionRecord, SessionSitting } from '../types';
+import { SESSIONS_STORE, runRequest, createId } from './db';
+
+export const createSessionId = createId;
+
+export function defaultSessionTitle(startedAt: number): string {
+  return `Session on ${new Date(startedAt).toLocaleString()}`;
+}
+
+/** The finished sittings of a session; records saved before sittings existed count as one. */
+export function sessionSittings(session: Pick<SessionRecord, 'startedAt' | 'endedAt' | 'sittings'>): SessionSitting[] {
+  if (session.sittings) return session.sittings;
+  return session.endedAt ? [{ start: session.startedAt, end: session.endedAt }] : [];
+}
+
+/** Time actually spent in the session, summed over its sittings. */
+export function sessionActiveMs(session: Pick<SessionRecord, 'startedAt' | 'endedAt' | 'sittings'>): number {
+  return sessionSittings(session).reduce((sum, sitting) => sum + Math.max(0, sitting.end - sitting.start), 0);
+}
+
+export function saveSession(session: SessionRecord): Promise<void> {
+  return runRequest(SESSIONS_STORE, 'readwrite', store => store.put(session)).then(() => undefined);
+}
+
+export function getSession(id: string): Promise<SessionRecord | undefined> {
+  return runRequest(SESSIONS_STORE, 'readonly', store => store.get(id) as IDBRequest<SessionRecord | undefined>);
+}
+
+// Newest sessions first.
+export async function listSessions(profileId: string): Promise<SessionRecord[]> {
+  const sessions = await runRequest(SESSIONS_STORE, 'readonly', store =>
+    store.index('profileId').getAll(profileId) as IDBRequest<SessionRecord[]>);
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// Every profile's sessions in this browser, newest first. Used by the supervisor dashboard.
+export async function listAllSessions(): Promise<SessionRecord[]> {
+  const sessions = await runRequest(SESSIONS_STORE, 'readonly', store => store.getAll() as IDBRequest<SessionRecord[]>);
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function renameSession(id: string, title: string): Promise<void> {
+  const session = await getSession(id);
+  if (!session) throw new Error(`Session ${id} not found`);
+  await saveSession({ ...session, title });
+}
+
+export function deleteSession(id: string): Promise<void> {
+  return runRequest(SESSIONS_STORE, 'readwrite', store => store.delete(id)).then(() => undefined);
+}
+
+// Sessions whose owner is not a known profile (recorded before profiles existed, or under a
+// profile from an earlier setup) are adopted by the given profile.
+export async function claimUnownedSessions(profileId: string, knownProfileIds: string[]): Promise<void> {
+  const sessions = await runRequest(SESSIONS_STORE, 'readonly', store => store.getAll() as IDBRequest<SessionRecord[]>);
+  await Promise.all(sessions
+    .filter(session => !session.profileId || !knownProfileIds.includes(session.profileId))
+    .map(session => saveSession({ ...session, profileId })));
+}
@@ -0,0 +1,99 @@
+import { FunctionCall, FunctionDeclaration, Type } from '@google/genai';
+import { SkillAttempt } from '../types';
+
+export type SkillArea = 'number' | 'algebra' | 'functions' | 'geometry' | 'statistics' | 'calculus';
+
+export interface Skill {
+  id: string;
+  name: string;
+  area: SkillArea;
+}
+
+export const SKILL_AREAS: { value: SkillArea; label: string }[] = [
+  { value: 'number', label: 'Number & arithmetic' },
+  { value: 'algebra', label: 'Algebra' },
+  { value: 'functions', label: 'Functions & graphs' },
+  { value: 'geometry', label: 'Geometry & trigonometry' },
+  { value: 'statistics', label: 'Statistics & probability' },
+  { value: 'calculus', label: 'Calculus' },
+];
+
+// The curriculum skills the tutor tags exchanges with. Ids are stored in the mastery model,
+// so rename a skill's `name` freely but never reuse or change an `id`.
+export const SKILLS: Skill[] = [
+  { id: 'whole-number-operations', name: 'Whole number operations', area: 'number' },
+  { id: 'fractions', name: 'Fractions', area: 'number' },
+  { id: 'decimals-percentages', name: 'Decimals and percentages', area: 'number' },
+  { id: 'ratios-proportions', name: 'Ratios and proportions', area: 'number' },
+  { id: 'negative-numbers', name: 'Negative numbers', area: 'number' },
+  { id: 'exponents-roots', name: 'Exponents and roots', area: 'number' },
+  { id: 'order-of-operations', name: 'Order of operations', area: 'number' },
+  { id: 'algebraic-expressions', name: 'Simplifying expressions', area: 'algebra' },
+  { id: 'linear-equations', name: 'Linear equations', area: 'algebra' },
+  { id: 'linear-inequalities', name: 'Linear inequalities', area: 'algebra' },
+  { id: 'systems-of-equations', name: 'Systems of equations', area: 'algebra' },
+  { id: 'polynomials', name: 'Polynomial arithmetic', area: 'algebra' },
+  { id: 'factoring-quadratics', name: 'Factoring quadratics', area: 'algebra' },
+  { id: 'quadratic-formula', name: 'Quadratic formula and completing the square', area: 'algebra' },
+  { id: 'rational-expressions', name: 'Rational expressions', area: 'algebra' },
+  { id: 'word-problems', name: 'Setting up word problems', area: 'algebra' },
+  { id: 'function-notation', name: 'Function notation and evaluation', area: 'functions' },
+  { id: 'linear-graphs', name: 'Slope and linear graphs', area: 'functions' },
+  { id: 'quadratic-graphs', name: 'Parabolas and quadratic graphs', area: 'functions' },
+  { id: 'exponential-logarithmic', name: 'Exponentials and logarithms', area: 'functions' },
+  { id: 'function-transformations', name: 'Transforming graphs', area: 'functions' },
+  { id: 'angles-lines', name: 'Angles and parallel lines', area: 'geometry' },
+  { id: 'triangles', name: 'Triangle properties', area: 'geometry' },
+  { id: 'similar-triangles', name: 'Similar and congruent triangles', area: 'geometry' },
+  { id: 'pythagorean-theorem', name: 'Pythagorean theorem', area: 'geometry' },
+  { id: 'area-perimeter', name: 'Area and perimeter', area: 'geometry' },
+  { id: 'volume-surface-area', name: 'Volume and surface area', area: 'geometry' },
+  { id: 'circles', name: 'Circles', area: 'geometry' },
+  { id: 'coordinate-geometry', name: 'Coordinate geometry', area: 'geometry' },
+  { id: 'right-triangle-trig', name: 'Right triangle trigonometry', area: 'geometry' },
+  { id: 'trig-identities', name: 'Trigonometric functions and identities', area: 'geometry' },
+  { id: 'data-summaries', name: 'Mean, median and spread', area: 'statistics' },
+  { id: 'probability', name: 'Probability', area: 'statistics' },
+  { id: 'counting', name: 'Counting and combinations', area: 'statistics' },
+  { id: 'limits', name: 'Limits', area: 'calculus' },
+  { id: 'derivatives', name: 'Derivative rules', area: 'calculus' },
+  { id: 'derivative-applications', name: 'Applications of derivatives', area: 'calculus' },
+  { id: 'integrals', name: 'Integration', area: 'calculus' },
+];
+
+const MAX_HINTS = 20;
+
+export const findSkill = (id: string) => SKILLS.find(skill => skill.id === id);
+
+export const SKILL_TRACKING_INSTRUCTION = `Each time the student finishes a step or a problem, call record_skill once with the curriculum skill it exercised, whether the student's own final answer for it was correct, and how many hints or corrections you gave before they got there. Pick the closest skill from the list; skip the call for small talk. Do not mention the call to the student.`;
+
+export const SKILL_FUNCTIONS: FunctionDeclaration[] = [
+  {
+    name: 'record_skill',
+    description: "Record the student's result on one curriculum skill for their progress report.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        skill: { type: Type.STRING, enum: SKILLS.map(skill => skill.id), description: 'The skill the step or problem exercised.' },
+        correct: { type: Type.BOOLEAN, description: "Whether the student's own answer was correct in the end." },
+        hints: { type: Type.INTEGER, description: 'How many hints or corrections you gave on it.' },
+      },
+      required: ['skill', 'correct', 'hints'],
+    },
+  },
+];
+
+export const isSkillCall = (call: FunctionCall) =>
+  SKILL_FUNCTIONS.some(declaration => declaration.name === call.name);
+
+export function parseSkillCall(call: FunctionCall): SkillAttempt | { error: string } {
+  const args = call.args ?? {};
+  if (typeof args.skill !== 'string' || !findSkill(args.skill)) return { error: `unknown skill ${String(args.skill)}` };
+  if (typeof args.correct !== 'boolean') return { error: 'correct must be true or false' };
+  const hints = Number(args.hints);
+  return {
+    skillId: args.skill,
+    correct: args.correct,
+    hints: Number.isFinite(hints) ? Math.max(0, Math.min(MAX_HINTS, Math.round(hints))) : 0,
+  };
+}
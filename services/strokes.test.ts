@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { Stroke } from '../types';
+import { annotationsMatchDrawing } from './strokes';
+
+const stroke = (x: number): Stroke => ({ points: [{ x, y: 0, pressure: 0.5 }, { x: x + 10, y: 10, pressure: 0.5 }], color: '#FFFFFF', width: 5 });
+
+describe('annotationsMatchDrawing', () => {
+  const strokes = [stroke(0), stroke(20)];
+  const annotated = { width: 640, height: 480, strokes };
+
+  it('matches the strokes and size the tutor marked', () => {
+    expect(annotationsMatchDrawing(annotated, strokes, { width: 640.4, height: 480 })).toBe(true);
+  });
+
+  it('stops matching once the strokes are edited or cleared', () => {
+    expect(annotationsMatchDrawing(annotated, [...strokes, stroke(40)], { width: 640, height: 480 })).toBe(false);
+    expect(annotationsMatchDrawing(annotated, [strokes[0], stroke(20)], { width: 640, height: 480 })).toBe(false);
+    expect(annotationsMatchDrawing(annotated, [], { width: 640, height: 480 })).toBe(false);
+  });
+
+  it('stops matching once the pad is resized', () => {
+    expect(annotationsMatchDrawing(annotated, strokes, { width: 800, height: 480 })).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { DrawingData, Stroke, StrokePoint } from '../types';
+
+export const CANVAS_BACKGROUND = '#111827'; // Corresponds to bg-gray-900
+
+// Width multiplier at zero and full pressure; 0.5 pressure draws at the chosen brush size.
+const MIN_PRESSURE_SCALE = 0.4;
+const MAX_PRESSURE_SCALE = 1.6;
+
+export function widthAtPressure(baseWidth: number, pressure: number): number {
+  const scale = MIN_PRESSURE_SCALE + (MAX_PRESSURE_SCALE - MIN_PRESSURE_SCALE) * Math.max(0, Math.min(1, pressure));
+  return baseWidth * scale;
+}
+
+/** Draws one stroke. Each segment uses the average pressure of its two points. */
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: Stroke) {
+  const { points } = stroke;
+  if (points.length === 0) return;
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = stroke.color;
+  ctx.fillStyle = stroke.color;
+
+  if (points.length === 1) {
+    const [point] = points;
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, widthAtPressure(stroke.width, point.pressure) / 2, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    for (let i = 1; i < points.length; i++) {
+      const from = points[i - 1];
+      const to = points[i];
+      ctx.lineWidth = widthAtPressure(stroke.width, (from.pressure + to.pressure) / 2);
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+    }
+  }
+  ctx.restore();
+}
+
+export function drawStrokes(ctx: CanvasRenderingContext2D, strokes: Stroke[]) {
+  strokes.forEach(stroke => drawStroke(ctx, stroke));
+}
+
+function distanceToSegment(p: StrokePoint, a: StrokePoint, b: StrokePoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/** True when `point` is within `radius` of the stroke's ink. */
+export function strokeHitTest(stroke: Stroke, point: StrokePoint, radius: number): boolean {
+  const reach = radius + stroke.width / 2;
+  if (stroke.points.length === 1) {
+    return Math.hypot(point.x - stroke.points[0].x, point.y - stroke.points[0].y) <= reach;
+  }
+  for (let i = 1; i < stroke.points.length; i++) {
+    if (distanceToSegment(point, stroke.points[i - 1], stroke.points[i]) <= reach) return true;
+  }
+  return false;
+}
+
+/** Renders strokes onto a fresh canvas with a solid background. */
+export function renderStrokes(strokes: Stroke[], width: number, height: number, background: string, scale = 1): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  drawStrokes(ctx, strokes);
+  return canvas;
+}
+
+/**
+ * Whether tutor marks made on `annotated` still line up with the pad: the same strokes, at the
+ * same canvas size (to the nearest pixel). Any edit, clear or resize leaves them pointing at nothing.
+ */
+export function annotationsMatchDrawing(annotated: DrawingData, strokes: Stroke[], size: { width: number; height: number }): boolean {
+  if (Math.round(annotated.width) !== Math.round(size.width) || Math.round(annotated.height) !== Math.round(size.height)) return false;
+  return annotated.strokes.length === strokes.length && annotated.strokes.every((stroke, index) => stroke === strokes[index]);
+}
+
+export interface StrokeHistory {
+  past: Stroke[][];
+  present: Stroke[];
+  future: Stroke[][];
+}
+
+export const EMPTY_STROKE_HISTORY: StrokeHistory = { past: [], present: [], future: [] };
+
+export function commitStrokes(history: StrokeHistory, strokes: Stroke[]): StrokeHistory {
+  return { past: [...history.past, history.present], present: strokes, future: [] };
+}
+
+export function undoStrokes(history: StrokeHistory): StrokeHistory {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoStrokes(history: StrokeHistory): StrokeHistory {
+  if (history.future.length === 0) return history;
+  const [present, ...future] = history.future;
+  return { past: [...history.past, history.present], present, future };
+}
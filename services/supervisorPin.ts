@@ -0,0 +1,43 @@
+import { SUPERVISOR_STORE, runRequest } from './db';
+
+// The supervisor PIN is separate from every profile PIN and never leaves this browser,
+// so only a salted, stretched hash of it is stored.
+const RECORD_ID = 'pin';
+const ITERATIONS = 200_000;
+
+interface SupervisorPinRecord {
+  id: string;
+  salt: string;
+  hash: string;
+}
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+async function hashPin(pin: string, salt: Uint8Array): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: ITERATIONS }, key, 256);
+  return toBase64(bits);
+}
+
+function getRecord(): Promise<SupervisorPinRecord | undefined> {
+  return runRequest(SUPERVISOR_STORE, 'readonly', store => store.get(RECORD_ID) as IDBRequest<SupervisorPinRecord | undefined>);
+}
+
+export async function hasSupervisorPin(): Promise<boolean> {
+  return !!(await getRecord());
+}
+
+export async function setSupervisorPin(pin: string): Promise<void> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const record: SupervisorPinRecord = { id: RECORD_ID, salt: toBase64(salt), hash: await hashPin(pin, salt) };
+  await runRequest(SUPERVISOR_STORE, 'readwrite', store => store.put(record));
+}
+
+export async function verifySupervisorPin(pin: string): Promise<boolean> {
+  const record = await getRecord();
+  if (!record) return false;
+  return (await hashPin(pin, fromBase64(record.salt))) === record.hash;
+}
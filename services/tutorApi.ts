@@ -0,0 +1,91 @@
+import { GoogleGenAI } from '@google/genai';
+import { GradeBand, ProfileRole, PublicProfile, SessionReview, SessionSummary, Speaker, TranscriptEntry, TranscriptTurn } from '../types';
+
+// Client for the local server in `server/`, which holds the Gemini API key and checks PINs.
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+async function request<T>(path: string, init: { method?: string; body?: unknown; authToken?: string | null } = {}): Promise<T> {
+  const headers: Record<string, string> = {};
+  if (init.body !== undefined) headers['Content-Type'] = 'application/json';
+  if (init.authToken) headers.Authorization = `Bearer ${init.authToken}`;
+
+  const response = await fetch(path, {
+    method: init.method ?? 'GET',
+    headers,
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(response.status, data.error ?? `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+export async function fetchProfiles(): Promise<PublicProfile[]> {
+  const { profiles } = await request<{ profiles: PublicProfile[] }>('/api/profiles');
+  return profiles;
+}
+
+// The first profile on a device gets a sign-in token back; later ones need a parent or teacher's token.
+export function registerProfile(
+  name: string,
+  role: ProfileRole,
+  pin: string,
+  authToken?: string | null,
+): Promise<{ profile: PublicProfile; token?: string }> {
+  return request('/api/profiles', { method: 'POST', body: { name, role, pin }, authToken });
+}
+
+export function signInProfile(profileId: string, pin: string): Promise<{ profile: PublicProfile; token: string }> {
+  return request('/api/session', { method: 'POST', body: { profileId, pin } });
+}
+
+/** Returns a Gemini client backed by a short-lived, single-use token minted by the server. */
+export async function createLiveClient(authToken: string): Promise<GoogleGenAI> {
+  const { token } = await request<{ token: string }>('/api/live-token', { method: 'POST', authToken });
+  return new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+}
+
+// Only the spoken and typed text is sent; images stay in the browser.
+function toTranscriptTurns(transcript: TranscriptEntry[]): TranscriptTurn[] {
+  return transcript
+    .map(entry => ({
+      speaker: entry.speaker === Speaker.USER ? 'student' as const : 'tutor' as const,
+      text: entry.image ? `[shared an image] ${entry.text}`.trim() : entry.text,
+    }))
+    .filter(turn => turn.text);
+}
+
+export async function fetchSessionSummary(authToken: string, transcript: TranscriptEntry[]): Promise<SessionSummary> {
+  const { summary } = await request<{ summary: SessionSummary }>('/api/session-summary', {
+    method: 'POST',
+    body: { transcript: toTranscriptTurns(transcript) },
+    authToken,
+  });
+  return summary;
+}
+
+export async function fetchSessionReview(authToken: string, transcript: TranscriptEntry[], gradeBand: GradeBand): Promise<SessionReview> {
+  const { review } = await request<{ review: SessionReview }>('/api/session-review', {
+    method: 'POST',
+    body: { transcript: toTranscriptTurns(transcript), gradeBand },
+    authToken,
+  });
+  return review;
+}
+
+/** Transcribes the handwritten math in a PNG data URL to LaTeX; an empty string means nothing was legible. */
+export async function recognizeHandwriting(authToken: string, imageDataUrl: string): Promise<string> {
+  const { latex } = await request<{ latex: string }>('/api/recognize-handwriting', {
+    method: 'POST',
+    body: { image: imageDataUrl.split(',')[1] ?? '' },
+    authToken,
+  });
+  return latex;
+}
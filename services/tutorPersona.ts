@@ -0,0 +1,79 @@
+import { GradeBand, HintStrictness, MathSubject, ProfileSettings } from '../types';
+
+export const GRADE_BANDS: { value: GradeBand; label: string; audience: string }[] = [
+  { value: 'elementary', label: 'Elementary school', audience: 'an elementary school student. Use simple words, small numbers and concrete examples' },
+  { value: 'middle', label: 'Middle school', audience: 'a middle school student. Keep vocabulary accessible and connect ideas to arithmetic they already know' },
+  { value: 'high', label: 'High school', audience: 'a high school student' },
+  { value: 'college', label: 'College', audience: 'a college student. You may use precise mathematical terminology and notation' },
+];
+
+export const SUBJECTS: { value: MathSubject; label: string }[] = [
+  { value: 'general', label: 'Any math topic' },
+  { value: 'algebra', label: 'Algebra' },
+  { value: 'geometry', label: 'Geometry' },
+  { value: 'calculus', label: 'Calculus' },
+  { value: 'statistics', label: 'Statistics' },
+];
+
+export const HINT_STRICTNESS: { value: HintStrictness; label: string; description: string; instruction: string }[] = [
+  {
+    value: 'socratic',
+    label: 'Pure Socratic',
+    description: 'Only guiding questions, never the answer.',
+    instruction: 'Never give the direct answer. Instead, break down the problem and ask questions that lead the student to discover the solution themselves.',
+  },
+  {
+    value: 'hints',
+    label: 'Hints',
+    description: 'Questions first, then a concrete hint when stuck.',
+    instruction: 'Never give the final answer. Start with guiding questions; if the student is stuck after a couple of tries, give one concrete hint about the next step.',
+  },
+  {
+    value: 'guided',
+    label: 'Guided steps',
+    description: 'Explains the next step when asked, student does the work.',
+    instruction: 'Do not give the final answer up front. When the student asks, explain how to do the next step, then let them carry it out and check their work.',
+  },
+  {
+    value: 'worked-example',
+    label: 'Worked example',
+    description: 'Walks through a similar example in full.',
+    instruction: 'When the student is stuck, walk through a similar worked example step by step, then ask them to apply the same method to their own problem.',
+  },
+];
+
+export const LANGUAGES: { value: string; label: string }[] = [
+  { value: 'English', label: 'English' },
+  { value: 'Spanish', label: 'Español' },
+  { value: 'French', label: 'Français' },
+  { value: 'German', label: 'Deutsch' },
+  { value: 'Portuguese', label: 'Português' },
+  { value: 'Chinese (Mandarin)', label: '中文' },
+  { value: 'Hindi', label: 'हिन्दी' },
+  { value: 'Japanese', label: '日本語' },
+];
+
+export const VOICES: { value: string; label: string }[] = [
+  { value: 'Zephyr', label: 'Zephyr (bright)' },
+  { value: 'Puck', label: 'Puck (upbeat)' },
+  { value: 'Kore', label: 'Kore (firm)' },
+  { value: 'Charon', label: 'Charon (informative)' },
+  { value: 'Aoede', label: 'Aoede (breezy)' },
+  { value: 'Fenrir', label: 'Fenrir (excitable)' },
+  { value: 'Leda', label: 'Leda (youthful)' },
+  { value: 'Orus', label: 'Orus (firm)' },
+];
+
+/** Builds the Live session system instruction from a profile's tutor settings. */
+export function buildSystemInstruction(settings: ProfileSettings): string {
+  const grade = GRADE_BANDS.find(g => g.value === settings.gradeBand) ?? GRADE_BANDS[2];
+  const strictness = HINT_STRICTNESS.find(h => h.value === settings.hintStrictness) ?? HINT_STRICTNESS[0];
+  const subject = settings.subject === 'general'
+    ? ''
+    : ` The student is currently studying ${SUBJECTS.find(s => s.value === settings.subject)?.label.toLowerCase()}, so frame explanations in that context.`;
+  const language = settings.language === 'English'
+    ? ''
+    : ` Always speak with the student in ${settings.language}, even if they write math in English.`;
+
+  return `You are a friendly and encouraging Socratic math tutor for ${grade.audience}. Your goal is to help the student understand concepts and solve problems by asking guiding questions, especially based on the image they provide. ${strictness.instruction}${subject}${language} Keep your responses concise, conversational, and easy to understand.`;
+}
@@ -0,0 +1,64 @@
+import { Stroke } from '../types';
+import { CANVAS_BACKGROUND, renderStrokes } from './strokes';
+
+// The Live API samples video at about one frame per second, so sending faster only adds bandwidth.
+export const WHITEBOARD_FRAME_INTERVAL_MS = 1000;
+const MAX_FRAME_DIMENSION = 1024;
+const FRAME_JPEG_QUALITY = 0.7;
+
+export const WHITEBOARD_INSTRUCTION = `The student can open a shared whiteboard next to the conversation at any time. Your video input carries one source at a time, either that whiteboard or their camera, and a short note in parentheses tells you whenever it switches. While it shows the whiteboard you receive snapshots of the board as they write, like video frames. Watch their work as it happens: when you see a mistake or they seem stuck, refer to it concretely (for example "check your second line"). Don't describe every frame or comment on work the student hasn't finished writing unless it would help.`;
+
+// What the session's single realtime video input is currently carrying.
+export type VideoSource = 'whiteboard' | 'camera' | null;
+
+const VIDEO_SOURCE_NOTES: Record<'whiteboard' | 'camera' | 'none', string> = {
+  whiteboard: '(Video input is now the shared whiteboard.)',
+  camera: "(Video input is now the student's camera; the whiteboard is not being shared.)",
+  none: '(No video is being shared now; earlier frames are out of date.)',
+};
+
+export const videoSourceNote = (source: VideoSource) => VIDEO_SOURCE_NOTES[source ?? 'none'];
+
+/**
+ * Renders a whiteboard snapshot as base64 JPEG (no data URL prefix), downscaled so its
+ * longest side is at most MAX_FRAME_DIMENSION.
+ */
+export function renderWhiteboardFrame(strokes: Stroke[], width: number, height: number, background = CANVAS_BACKGROUND): string {
+  const scale = Math.min(1, MAX_FRAME_DIMENSION / Math.max(width, height, 1));
+  const dataUrl = renderStrokes(strokes, width, height, background, scale).toDataURL('image/jpeg', FRAME_JPEG_QUALITY);
+  return dataUrl.split(',')[1];
+}
+
+/**
+ * Collapses bursts of change notifications into at most one callback per interval,
+ * always delivering a trailing call so the last state is never lost.
+ */
+export class SnapshotThrottle {
+  private lastRun = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly run: () => void, private readonly intervalMs = WHITEBOARD_FRAME_INTERVAL_MS) {}
+
+  schedule() {
+    if (this.timer !== null) return;
+    const wait = this.lastRun + this.intervalMs - Date.now();
+    if (wait <= 0) {
+      this.fire();
+    } else {
+      this.timer = setTimeout(() => this.fire(), wait);
+    }
+  }
+
+  cancel() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private fire() {
+    this.timer = null;
+    this.lastRun = Date.now();
+    this.run();
+  }
+}
@@ -1,11 +1,260 @@
 
+// The Live model the tutor talks through; the server pins ephemeral tokens to it.
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
 export enum Speaker {
   USER = 'USER',
   TUTOR = 'TUTOR',
 }
 
+export type SessionStatus = 'IDLE' | 'CONNECTING' | 'RECONNECTING' | 'LISTENING' | 'THINKING' | 'SPEAKING';
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+  // 0-1 from the pointer; mice and fingers report a constant 0.5.
+  pressure: number;
+}
+
+export interface Stroke {
+  color: string;
+  width: number;
+  points: StrokePoint[];
+}
+
+// Vector form of a DrawingPad sketch, in CSS pixels of a `width` x `height` canvas.
+export interface DrawingData {
+  width: number;
+  height: number;
+  strokes: Stroke[];
+  // Ruler-and-compass figure drawn over the strokes in construction mode.
+  construction?: Construction;
+}
+
+export interface ConstructionPoint {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+}
+
+// Shapes refer to points by id; circle radii are in the same CSS pixels as the points.
+export type ConstructionShape =
+  | { kind: 'segment'; from: string; to: string }
+  | { kind: 'circle'; center: string; radius: number }
+  | { kind: 'angle'; vertex: string; from: string; to: string };
+
+export interface Construction {
+  points: ConstructionPoint[];
+  shapes: ConstructionShape[];
+}
+
+// Annotation coordinates are normalized to 0-1000 on each axis in [y, x] order,
+// the convention Gemini uses for spatial output.
+export type AnnotationPoint = [number, number];
+export type AnnotationBox = [number, number, number, number]; // [ymin, xmin, ymax, xmax]
+
+export type Annotation =
+  | { kind: 'circle'; box: AnnotationBox; text?: string }
+  | { kind: 'underline'; box: AnnotationBox; text?: string }
+  | { kind: 'arrow'; from: AnnotationPoint; to: AnnotationPoint; text?: string }
+  | { kind: 'label'; at: AnnotationPoint; text: string };
+
 export interface TranscriptEntry {
   speaker: Speaker;
   text: string;
   image?: string;
+  drawing?: DrawingData;
+  // Marks the tutor drew on `image`.
+  annotations?: Annotation[];
+  // The queued problem that was active when this entry was recorded.
+  problemId?: string;
+  // Skills the tutor recorded a result for during this exchange.
+  skills?: SkillAttempt[];
+  // Checks the tutor ran on the local math engine while answering.
+  mathChecks?: MathCheck[];
+  // LaTeX read off a handwritten `drawing` and confirmed by the student before it was sent.
+  recognizedMath?: string;
+  // Set on the entries the hint ladder buttons add, one per button press.
+  hint?: HintUsage;
+}
+
+export type HintRequest = 'smaller' | 'bigger' | 'reveal';
+
+// A step on the hint ladder: levels 1 to HINT_LEVELS.length are hints, one past that is the full solution.
+export interface HintUsage {
+  request: HintRequest;
+  level: number;
+}
+
+// `computed` marks results the engine worked out without checking anything, e.g. a simplification.
+export type MathCheckVerdict = 'verified' | 'refuted' | 'unverified' | 'computed';
+
+// One call to the local math engine, shown as a badge on the transcript.
+export interface MathCheck {
+  tool: 'simplify' | 'solve' | 'check_step';
+  input: string;
+  result: string;
+  verdict: MathCheckVerdict;
+}
+
+// One result on a curriculum skill, reported by the tutor through `record_skill`.
+export interface SkillAttempt {
+  skillId: string;
+  correct: boolean;
+  hints: number;
+}
+
+export interface SkillMastery {
+  skillId: string;
+  attempts: number;
+  correct: number;
+  hints: number;
+  // 0-1, a moving average of attempt credit that favours recent attempts.
+  score: number;
+  lastPracticedAt: number;
+}
+
+// Per-profile progress, kept in this browser alongside the sessions it was learned from.
+export interface MasteryRecord {
+  profileId: string;
+  skills: Record<string, SkillMastery>;
+}
+
+export type StepStatus = 'pending' | 'active' | 'done';
+
+export interface SolutionStep {
+  text: string;
+  status: StepStatus;
+}
+
+// The problem the student is currently working on and the tutor's plan for solving it.
+// One problem cut out of an uploaded worksheet, worked through in queue order.
+export interface QueuedProblem {
+  id: string;
+  label: string;
+  // Where the problem came from, e.g. "page 2 of algebra.pdf".
+  source: string;
+  image: string;
+  status: StepStatus;
+}
+
+export interface ProblemBoardState {
+  image: string | null;
+  steps: SolutionStep[];
+}
+
+// A slider-controlled constant in graphed expressions, e.g. `a` in y = a x^2.
+export interface GraphParameter {
+  name: string;
+  value: number;
+  min: number;
+  max: number;
+}
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+  label?: string;
+}
+
+// A tangent line to the 0-based `expression` at `x`.
+export interface GraphTangent {
+  expression: number;
+  x: number;
+}
+
+// What the tutor asked to plot; the graph panel renders it and the student tweaks the parameters.
+export interface GraphState {
+  expressions: string[];
+  xRange: [number, number];
+  yRange: [number, number];
+  points: GraphPoint[];
+  tangents: GraphTangent[];
+  parameters: GraphParameter[];
+}
+
+export interface SessionSitting {
+  start: number;
+  end: number;
+}
+
+export interface SessionRecord {
+  id: string;
+  profileId: string;
+  title: string;
+  startedAt: number;
+  endedAt: number | null;
+  // One entry per sitting, added when it ends. A resumed session gets a new sitting rather than
+  // stretching the first, so time between sittings is never counted. Missing on older records.
+  sittings?: SessionSitting[];
+  transcript: TranscriptEntry[];
+  // Worksheet problems queued during the session, if any.
+  problems?: QueuedProblem[];
+}
+
+// Plain-text view of a transcript sent to the server for non-live model calls.
+export interface TranscriptTurn {
+  speaker: 'student' | 'tutor';
+  text: string;
+}
+
+export interface SessionSummary {
+  overview: string;
+  keyConcepts: string[];
+  mistakes: string[];
+}
+
+// A part of the session where the student leaned on the tutor, with how many hints it took.
+export interface HintHotspot {
+  topic: string;
+  hints: number;
+  detail: string;
+}
+
+// Shown on the summary screen once a session ends.
+export interface SessionReview {
+  topics: string[];
+  hintHotspots: HintHotspot[];
+  practiceProblems: string[];
+}
+
+export type ProfileRole = 'student' | 'parent' | 'teacher';
+
+export type GradeBand = 'elementary' | 'middle' | 'high' | 'college';
+
+export type MathSubject = 'general' | 'algebra' | 'geometry' | 'calculus' | 'statistics';
+
+export type HintStrictness = 'socratic' | 'hints' | 'guided' | 'worked-example';
+
+export interface ProfileSettings {
+  textOnly: boolean;
+  gradeBand: GradeBand;
+  subject: MathSubject;
+  hintStrictness: HintStrictness;
+  // Spoken language name as used in the system instruction, e.g. "Spanish".
+  language: string;
+  voiceName: string;
+  // Keep a whiteboard open beside the transcript and stream it to the tutor.
+  dockedWhiteboard: boolean;
+  // Live camera streaming: frames per second and longest frame side in pixels.
+  cameraFrameRate: number;
+  cameraResolution: number;
+  // Set by a parent or teacher from the supervisor dashboard to hide the "reveal solution" control.
+  revealLocked: boolean;
+}
+
+// The settings the signed-in profile may change for itself; the rest are supervisor-only.
+export type StudentSettings = Omit<ProfileSettings, 'revealLocked'>;
+
+// What the server shares about a profile; the PIN hash never leaves the server.
+export interface PublicProfile {
+  id: string;
+  name: string;
+  role: ProfileRole;
+  createdAt: number;
+}
+
+export interface Profile extends PublicProfile {
+  settings: ProfileSettings;
 }